@@ -3,6 +3,16 @@ let logCounter = 0;
 let socket = null;
 let currentMessageId = null;
 
+// JWT for servers with AUTH_ENABLED, from ?token=... (remembered) or localStorage
+const authToken = new URLSearchParams(window.location.search).get('token') || localStorage.getItem('agentToken');
+if (authToken) {
+    localStorage.setItem('agentToken', authToken);
+}
+
+function authHeaders(headers = {}) {
+    return authToken ? { ...headers, Authorization: `Bearer ${authToken}` } : headers;
+}
+
 // Initialize the application
 document.addEventListener('DOMContentLoaded', function() {
     initializeApp();
@@ -45,7 +55,7 @@ function setupEventListeners() {
 }
 
 function setupWebSocket() {
-    socket = io();
+    socket = io({ auth: authToken ? { token: authToken } : {} });
 
     socket.on('connect', () => {
         logMessage('info', 'Connected to server via WebSocket');
@@ -57,6 +67,11 @@ function setupWebSocket() {
         updateConnectionStatus(false);
     });
 
+    socket.on('connect_error', (error) => {
+        logMessage('error', `WebSocket connection failed: ${error.message}`);
+        updateConnectionStatus(false);
+    });
+
     // Message processing events
     socket.on('message:processing', (data) => {
         logMessage('info', `Processing message ${data.messageId}...`);
@@ -73,6 +88,19 @@ function setupWebSocket() {
         updateMessageStatus('responding', data);
     });
 
+    socket.on('message:delta', (data) => {
+        const responseOutput = document.getElementById('responseOutput');
+        if (data.sequence === 1) {
+            responseOutput.value = '';
+        }
+        responseOutput.value += data.delta;
+    });
+
+    // Text streamed before a function call was not the answer
+    socket.on('message:reset', () => {
+        document.getElementById('responseOutput').value = '';
+    });
+
     socket.on('message:complete', (data) => {
         const responseOutput = document.getElementById('responseOutput');
         responseOutput.value = typeof data.response === 'object' 
@@ -110,6 +138,16 @@ function setupWebSocket() {
     socket.on('job:failed', (data) => {
         logMessage('error', `Job failed: ${data.jobId} - ${data.error}`);
     });
+
+    // Function hot reload events
+    socket.on('function:loaded', (data) => {
+        logMessage('info', `Function ${data.name} ${data.reloaded ? 'reloaded' : 'loaded'}`);
+        loadFunctions();
+    });
+
+    socket.on('function:error', (data) => {
+        logMessage('error', `Failed to load ${data.file}: ${data.error}`);
+    });
 }
 
 function updateConnectionStatus(connected) {
@@ -177,7 +215,7 @@ async function initializeApp() {
 
 async function loadMessageTemplates() {
     try {
-        const response = await fetch('/api/message-templates');
+        const response = await fetch('/api/message-templates', { headers: authHeaders() });
         const data = await response.json();
         
         const select = document.getElementById('templateSelect');
@@ -201,7 +239,7 @@ async function loadMessageTemplates() {
 
 async function loadFunctions() {
     try {
-        const response = await fetch('/api/functions');
+        const response = await fetch('/api/functions', { headers: authHeaders() });
         const data = await response.json();
         
         const select = document.getElementById('functionSelect');
@@ -336,7 +374,7 @@ async function handleFunctionSelect() {
 
 async function showFunctionDefinition(functionName) {
     try {
-        const response = await fetch(`/api/functions/${functionName}`);
+        const response = await fetch(`/api/functions/${functionName}`, { headers: authHeaders() });
         const data = await response.json();
         
         if (data.function) {
@@ -439,9 +477,9 @@ async function sendMessage() {
         
         const response = await fetch('/api/test-message', {
             method: 'POST',
-            headers: {
+            headers: authHeaders({
                 'Content-Type': 'application/json'
-            },
+            }),
             body: JSON.stringify(messageData)
         });
         
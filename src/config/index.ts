@@ -12,11 +12,21 @@ export const config = {
     queues: {
       incoming: process.env.RABBITMQ_QUEUE_INCOMING || 'agent_incoming',
       outgoing: process.env.RABBITMQ_QUEUE_OUTGOING || 'agent_outgoing',
+      deadLetter: process.env.RABBITMQ_QUEUE_DEAD_LETTER || 'agent_dead_letter',
+      retry: process.env.RABBITMQ_QUEUE_RETRY || 'agent_incoming_retry',
     },
+    maxAttempts: parseInt(process.env.RABBITMQ_MAX_ATTEMPTS || '5'),
+    retryDelayMs: parseInt(process.env.RABBITMQ_RETRY_DELAY_MS || '2000'),
+    routeBy: (process.env.RABBITMQ_ROUTE_BY || '').split(',').map(field => field.trim()).filter(Boolean),
   },
   redis: {
     url: process.env.REDIS_URL || 'redis://localhost:6379',
   },
+  conversation: {
+    store: process.env.CONVERSATION_STORE || 'redis',
+    maxHistoryTokens: parseInt(process.env.CONVERSATION_MAX_HISTORY_TOKENS || '4000'),
+    ttlSeconds: parseInt(process.env.CONVERSATION_TTL_SECONDS || '86400'),
+  },
   llm: {
     openai: {
       apiKey: process.env.OPENAI_API_KEY || '',
@@ -27,17 +37,97 @@ export const config = {
     google: {
       apiKey: process.env.GOOGLE_AI_API_KEY || '',
     },
+    openaiCompatible: {
+      baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL || '',
+      apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || '',
+      model: process.env.OPENAI_COMPATIBLE_MODEL || '',
+      streamUsage: process.env.OPENAI_COMPATIBLE_STREAM_USAGE === 'true',
+    },
+    ollama: {
+      baseURL: process.env.OLLAMA_BASE_URL || '',
+      model: process.env.OLLAMA_MODEL || 'llama3.1',
+    },
+    mock: {
+      // Replaces every provider with scripted responses
+      enabled: process.env.LLM_MOCK === 'true',
+      fixturesPath: process.env.LLM_MOCK_FIXTURES || '',
+      // Real responses are appended here, ready to be replayed as fixtures
+      recordPath: process.env.LLM_RECORD_CASSETTE || '',
+    },
+    retry: {
+      maxAttempts: parseInt(process.env.LLM_RETRY_MAX_ATTEMPTS || '3'),
+      initialDelayMs: parseInt(process.env.LLM_RETRY_INITIAL_DELAY_MS || '500'),
+      maxDelayMs: parseInt(process.env.LLM_RETRY_MAX_DELAY_MS || '8000'),
+      backoffMultiplier: 2,
+    },
   },
   functions: {
     timeoutMs: parseInt(process.env.FUNCTION_TIMEOUT_MS || '30000'),
     maxConcurrentJobs: parseInt(process.env.MAX_CONCURRENT_JOBS || '10'),
+    // Watch src/functions and reload changed files; off in production unless enabled
+    hotReload: process.env.FUNCTIONS_HOT_RELOAD
+      ? process.env.FUNCTIONS_HOT_RELOAD === 'true'
+      : process.env.NODE_ENV !== 'production',
+    routeStore: process.env.FUNCTION_ROUTE_STORE || 'redis',
+    // Defaults for functions with an isolation mode
+    sandbox: {
+      maxMemoryMb: parseInt(process.env.FUNCTION_SANDBOX_MAX_MEMORY_MB || '256'),
+      maxCpuMs: parseInt(process.env.FUNCTION_SANDBOX_MAX_CPU_MS || '0'),
+    },
+  },
+  jobs: {
+    store: process.env.JOB_STORE || 'redis',
+    retentionSeconds: parseInt(process.env.JOB_RETENTION_SECONDS || '604800'),
+    timezone: process.env.JOB_TIMEZONE || 'UTC',
+  },
+  idempotency: {
+    enabled: process.env.IDEMPOTENCY_ENABLED !== 'false',
+    store: process.env.IDEMPOTENCY_STORE || 'redis',
+    // How long a completed message's reply is kept for re-sending
+    ttlSeconds: parseInt(process.env.IDEMPOTENCY_TTL_SECONDS || '86400'),
+    // A claim is refreshed while its message is processed, so after a crash it expires within this time
+    lockSeconds: parseInt(process.env.IDEMPOTENCY_LOCK_SECONDS || '30'),
+  },
+  usage: {
+    store: process.env.USAGE_STORE || 'redis',
+    retentionDays: parseInt(process.env.USAGE_RETENTION_DAYS || '90'),
+    // JSON file of { "<model or model prefix>": { "input": usd, "output": usd } } per million tokens
+    pricesFile: process.env.LLM_PRICES_FILE || '',
+  },
+  // Defaults per user and per tenant; 0 means unlimited. Overrides for single
+  // users or tenants are stored in Redis and managed through /api/quotas.
+  quotas: {
+    enabled: process.env.QUOTAS_ENABLED === 'true',
+    store: process.env.QUOTA_STORE || 'redis',
+    user: {
+      requestsPerMinute: parseInt(process.env.QUOTA_USER_REQUESTS_PER_MINUTE || '0'),
+      tokensPerDay: parseInt(process.env.QUOTA_USER_TOKENS_PER_DAY || '0'),
+      concurrentJobs: parseInt(process.env.QUOTA_USER_CONCURRENT_JOBS || '0'),
+    },
+    tenant: {
+      requestsPerMinute: parseInt(process.env.QUOTA_TENANT_REQUESTS_PER_MINUTE || '0'),
+      tokensPerDay: parseInt(process.env.QUOTA_TENANT_TOKENS_PER_DAY || '0'),
+      concurrentJobs: parseInt(process.env.QUOTA_TENANT_CONCURRENT_JOBS || '0'),
+    },
+  },
+  orchestration: {
+    maxSteps: parseInt(process.env.ORCHESTRATION_MAX_STEPS || '5'),
+    tokenBudget: parseInt(process.env.ORCHESTRATION_TOKEN_BUDGET || '20000'),
+    streamToQueue: process.env.ORCHESTRATION_STREAM_TO_QUEUE === 'true',
   },
   logging: {
     level: process.env.LOG_LEVEL || 'info',
     file: process.env.LOG_FILE || 'logs/app.log',
   },
   security: {
+    // Always on in production unless explicitly disabled
+    authEnabled: process.env.AUTH_ENABLED
+      ? process.env.AUTH_ENABLED === 'true'
+      : process.env.NODE_ENV === 'production',
+    // The server refuses to start with this default while auth is enabled
     jwtSecret: process.env.JWT_SECRET || 'default-jwt-secret',
+    // Comma-separated "key:role[:subject[:tenantId]]" entries
+    apiKeys: process.env.API_KEYS || '',
     encryptionKey: process.env.ENCRYPTION_KEY || 'default-encryption-key',
   },
 };
\ No newline at end of file
@@ -12,12 +12,14 @@ const mathUtilsFunction: ICustomFunction = {
         type: 'array',
         description: 'Array of numbers to process',
         required: true,
+        items: { type: 'number' },
       },
       {
         name: 'operation',
         type: 'string',
         description: 'Math operation: sum, average, min, max, median, or factorial (for single number)',
         required: true,
+        enum: ['sum', 'average', 'min', 'max', 'median', 'factorial'],
       },
     ],
     timeout: 10000,
@@ -17,6 +17,7 @@ const stringUtilsFunction: ICustomFunction = {
         type: 'string',
         description: 'Operation to perform: uppercase, lowercase, reverse, count, or wordCount',
         required: true,
+        enum: ['uppercase', 'lowercase', 'reverse', 'count', 'wordCount'],
       },
     ],
     timeout: 5000,
@@ -1,4 +1,5 @@
 import { ICustomFunction, FunctionType, IExecutionContext } from '../../types';
+import { sleep } from '../../utils/abort';
 
 const timerFunction: ICustomFunction = {
   definition: {
@@ -8,9 +9,11 @@ const timerFunction: ICustomFunction = {
     parameters: [
       {
         name: 'duration',
-        type: 'number',
+        type: 'integer',
         description: 'Duration to wait in milliseconds',
         required: true,
+        minimum: 1,
+        maximum: 300000,
       },
       {
         name: 'message',
@@ -20,7 +23,7 @@ const timerFunction: ICustomFunction = {
         default: 'Timer completed',
       },
     ],
-    timeout: 300000, // 5 minutes max
+    timeout: 310000, // The longest wait plus time to report the result
   },
   handler: async (params: Record<string, any>, context?: IExecutionContext): Promise<any> => {
     const { duration, message = 'Timer completed' } = params;
@@ -41,8 +44,8 @@ const timerFunction: ICustomFunction = {
       message 
     });
 
-    // Wait for the specified duration
-    await new Promise(resolve => setTimeout(resolve, duration));
+    // Wait for the specified duration, stopping early if the job is cancelled
+    await sleep(duration, context?.signal);
 
     const endTime = Date.now();
     const actualDuration = endTime - startTime;
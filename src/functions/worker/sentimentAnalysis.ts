@@ -1,5 +1,6 @@
 import { ICustomFunction, FunctionType, IExecutionContext, LLMProvider } from '../../types/index';
 import { LLMManager } from '../../modules/LLMManager';
+import { getCallContext } from '../../modules/UsageTracker';
 
 const sentimentAnalysisFunction: ICustomFunction = {
   definition: {
@@ -12,6 +13,8 @@ const sentimentAnalysisFunction: ICustomFunction = {
         type: 'string',
         description: 'Text to analyze for sentiment',
         required: true,
+        minLength: 1,
+        maxLength: 5000,
       },
       {
         name: 'includeEmotions',
@@ -105,7 +108,13 @@ Provide your analysis in this exact JSON format:
 
 Ensure all scores are realistic and well-calibrated. Provide accurate analysis.`;
 
-      const llmResponse = await llmManager.generateResponse(analysisInstanceId, analysisPrompt);
+      const llmResponse = await llmManager.generateChat(
+        analysisInstanceId,
+        [{ role: 'user', content: analysisPrompt }],
+        undefined,
+        context?.signal,
+        getCallContext(context)
+      );
       
       // Parse the JSON response
       let analysisResult;
@@ -143,6 +152,11 @@ Ensure all scores are realistic and well-calibrated. Provide accurate analysis.`
       return result;
 
     } catch (error) {
+      // A cancelled or timed out job must stop here rather than fall back
+      if (context?.signal?.aborted) {
+        throw error;
+      }
+
       context?.logger?.error('Error in sentiment analysis:', error);
       
       // Fallback to basic analysis if LLM fails
@@ -2,6 +2,8 @@ import axios from 'axios';
 import type { ICustomFunction, IExecutionContext } from '../../types/index';
 import { FunctionType, LLMProvider } from '../../types/index';
 import { LLMManager } from '../../modules/LLMManager';
+import { getCallContext } from '../../modules/UsageTracker';
+import { sleep } from '../../utils/abort';
 import { fileURLToPath } from 'url';
 import path from 'path';
 
@@ -19,12 +21,14 @@ const weatherFunction: ICustomFunction = {
         type: 'string',
         description: 'Name of the city to get weather for',
         required: true,
+        minLength: 1,
       },
       {
         name: 'units',
         type: 'string',
         description: 'Temperature units: metric (Celsius) or imperial (Fahrenheit)',
         required: false,
+        enum: ['metric', 'imperial'],
         default: 'metric',
       },
       {
@@ -50,7 +54,7 @@ const weatherFunction: ICustomFunction = {
     try {
       // Note: In a real implementation, you would use a proper weather API like OpenWeatherMap
       // For demo purposes, we'll simulate weather data
-      const weatherData = await simulateWeatherAPI(city, units);
+      const weatherData = await simulateWeatherAPI(city, units, context?.signal);
 
       let analysis: string | null = null;
       if (includeAnalysis) {
@@ -95,7 +99,13 @@ Provide a brief analysis including:
 Keep it under 200 words and make it practical.`;
 
         try {
-          const llmResponse = await llmManager.generateResponse(analysisInstanceId, analysisPrompt);
+          const llmResponse = await llmManager.generateChat(
+            analysisInstanceId,
+            [{ role: 'user', content: analysisPrompt }],
+            undefined,
+            context?.signal,
+            getCallContext(context)
+          );
           if (llmResponse && llmResponse.content) {
             analysis = llmResponse.content;
           } else {
@@ -103,6 +113,10 @@ Keep it under 200 words and make it practical.`;
           }
           context?.logger?.info('Weather analysis generated successfully');
         } catch (error) {
+          if (context?.signal?.aborted) {
+            llmManager.deleteInstance(analysisInstanceId);
+            throw error;
+          }
           context?.logger?.warn('Failed to generate weather analysis:', error);
           analysis = 'Weather analysis unavailable at this time.';
         }
@@ -130,6 +144,10 @@ Keep it under 200 words and make it practical.`;
       return result;
 
     } catch (error) {
+      // Cancellation and timeouts are reported as such, not as a weather failure
+      if (context?.signal?.aborted) {
+        throw error;
+      }
       context?.logger?.error('Error fetching weather data:', error);
       throw new Error(`Failed to fetch weather data for ${city}: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -137,9 +155,9 @@ Keep it under 200 words and make it practical.`;
 };
 
 // Simulate weather API call (replace with real API in production)
-async function simulateWeatherAPI(city: string, units: string): Promise<any> {
+async function simulateWeatherAPI(city: string, units: string, signal?: AbortSignal): Promise<any> {
   // Simulate API delay
-  await new Promise(resolve => setTimeout(resolve, 1000 + Math.random() * 2000));
+  await sleep(1000 + Math.random() * 2000, signal);
 
   // Generate realistic weather data based on city name hash
   const cityHash = city.toLowerCase().split('').reduce((a, b) => {
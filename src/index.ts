@@ -4,8 +4,40 @@ import helmet from 'helmet';
 import path from 'path';
 import { config } from './config';
 import { logger } from './utils/logger';
-import { AgentMaster } from './modules/AgentMaster';
-import { IHealthStatus } from './types';
+import { AgentMaster, ALL_EVENTS_ROOM, getUserRoom } from './modules/AgentMaster';
+import { formatFunctionRef } from './modules/FunctionsManager';
+import {
+  IHealthStatus,
+  IJob,
+  IQuotaLimits,
+  JobExecutionType,
+  JobStatus,
+  LLMProvider,
+  QuotaScope,
+  UsageGroupBy,
+} from './types';
+import { getUsageTracker } from './modules/UsageTracker';
+import { getQuotaManager, QuotaExceededError } from './modules/QuotaManager';
+import { LastRouteInstanceError } from './modules/LLMManager';
+import { getNextCronRuns } from './utils/cron';
+import { ExecutionAbortedError } from './utils/abort';
+import {
+  authenticate,
+  authenticateCredentials,
+  getBearerToken,
+  hasRole,
+  checkAuthConfig,
+} from './middleware/auth';
+import { createLLMInstanceSchema, updateLLMInstanceSchema, redactLLMInstance } from './utils/llmInstanceValidation';
+import { functionRouteSchema } from './utils/functionRouteValidation';
+import {
+  AGENT_MODEL_ID,
+  toLLMMessages,
+  createCompletionId,
+  createCompletion,
+  createCompletionChunk,
+  openAIError,
+} from './utils/openaiCompat';
 import { fileURLToPath } from 'url';
 import { Server } from 'socket.io';
 import { createServer } from 'http';
@@ -13,6 +45,10 @@ import { createServer } from 'http';
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+const USAGE_GROUP_FIELDS: UsageGroupBy[] = ['userId', 'tenantId', 'sessionId', 'requestId', 'model', 'provider', 'instanceId'];
+const QUOTA_SCOPES: QuotaScope[] = ['user', 'tenant'];
+const QUOTA_LIMIT_NAMES: (keyof IQuotaLimits)[] = ['requestsPerMinute', 'tokensPerDay', 'concurrentJobs'];
+
 class AIAgentServer {
   private app: express.Application;
   private agentMaster: AgentMaster;
@@ -85,6 +121,38 @@ class AIAgentServer {
       });
       next();
     });
+
+    // Authentication and role checks for /api and /v1 (see ROUTE_ROLES)
+    this.app.use(authenticate);
+  }
+
+  // Users act as themselves: unless they are an admin, the user and tenant come
+  // from their credentials rather than from the request body
+  private withPrincipal(req: express.Request, metadata?: Record<string, any>): Record<string, any> {
+    if (!req.principal || hasRole(req.principal, 'admin')) {
+      return { ...metadata };
+    }
+    return {
+      ...metadata,
+      userId: req.principal.id,
+      tenantId: req.principal.tenantId,
+      sessionId: typeof metadata?.sessionId === 'string' ? this.getSessionKey(req, metadata.sessionId) : undefined,
+    };
+  }
+
+  // Non-admins' session ids are scoped to their principal, so they can only read, clear
+  // or append to their own conversations. The principal id is encoded so the prefix
+  // cannot be forged with a colon.
+  private getSessionKey(req: express.Request, sessionId: string): string {
+    if (!req.principal || hasRole(req.principal, 'admin')) {
+      return sessionId;
+    }
+    return `${encodeURIComponent(req.principal.id)}:${sessionId}`;
+  }
+
+  // Viewers only see the jobs started by their own messages
+  private canAccessJob(req: express.Request, job: IJob): boolean {
+    return hasRole(req.principal, 'operator') || job.data.userId === req.principal?.id;
   }
 
   private setupWebSocket(): void {
@@ -96,8 +164,27 @@ class AIAgentServer {
       }
     });
 
+    // Same credentials as the REST API, sent as { auth: { token } } or { auth: { apiKey } }
+    this.io.use((socket, next) => {
+      try {
+        socket.data.principal = authenticateCredentials({
+          token: socket.handshake.auth?.token || getBearerToken(socket.handshake.headers.authorization),
+          apiKey: socket.handshake.auth?.apiKey || socket.handshake.headers['x-api-key'],
+        });
+        next();
+      } catch (error) {
+        next(error instanceof Error ? error : new Error('Authentication failed'));
+      }
+    });
+
     this.io.on('connection', (socket) => {
-      logger.info('Client connected to WebSocket');
+      const principal = socket.data.principal;
+      logger.info('Client connected to WebSocket', { userId: principal.id, role: principal.role });
+
+      socket.join(getUserRoom(principal.id));
+      if (hasRole(principal, 'operator')) {
+        socket.join(ALL_EVENTS_ROOM);
+      }
       
       socket.on('disconnect', () => {
         logger.info('Client disconnected from WebSocket');
@@ -113,7 +200,7 @@ class AIAgentServer {
     // Health check endpoint
     this.app.get('/health', async (req, res) => {
       try {
-        const healthStatuses = this.agentMaster.getAllHealthStatuses();
+        const healthStatuses = await this.agentMaster.getAllHealthStatuses();
         const overallHealth = healthStatuses.every(status => status.status === 'healthy');
         
         res.status(overallHealth ? 200 : 503).json({
@@ -136,7 +223,7 @@ class AIAgentServer {
       const { module } = req.params;
       
       try {
-        const healthStatuses = this.agentMaster.getAllHealthStatuses();
+        const healthStatuses = await this.agentMaster.getAllHealthStatuses();
         const moduleHealth = healthStatuses.find(status => 
           status.module.toLowerCase() === module.toLowerCase()
         );
@@ -163,9 +250,13 @@ class AIAgentServer {
     // Functions management endpoints
     this.app.get('/api/functions', (req, res) => {
       try {
-        const functions = this.agentMaster.getFunctionsManager().getAllFunctions();
+        const functionsManager = this.agentMaster.getFunctionsManager();
+        const functions = functionsManager.getAllFunctions();
         res.json({
-          functions: functions.map(f => f.definition),
+          functions: functions.map(f => ({
+            ...f.definition,
+            versions: functionsManager.getFunctionVersions(f.definition.name).map(v => v.definition.version),
+          })),
           count: functions.length,
         });
       } catch (error) {
@@ -177,29 +268,112 @@ class AIAgentServer {
     this.app.get('/api/functions/:name', (req, res) => {
       try {
         const { name } = req.params;
-        const func = this.agentMaster.getFunctionsManager().getFunction(name);
+        const version = typeof req.query.version === 'string' ? req.query.version : undefined;
+        const functionsManager = this.agentMaster.getFunctionsManager();
+        const func = functionsManager.getFunction(name, version);
         
         if (!func) {
-          return res.status(404).json({ error: `Function ${name} not found` });
+          return res.status(404).json({ error: `Function ${formatFunctionRef(name, version)} not found` });
         }
 
-        res.json({ function: func.definition });
+        res.json({
+          function: func.definition,
+          versions: functionsManager.getFunctionVersions(name).map(v => v.definition.version),
+          route: functionsManager.getFunctionRoute(name),
+        });
       } catch (error) {
         logger.error('Error fetching function:', error);
         res.status(500).json({ error: 'Failed to fetch function' });
       }
     });
 
+    // Which version unpinned calls get: { "version": "^1.2", "canary": { "version": "2.0.0", "percentage": 10 } }
+    this.app.get('/api/functions/:name/route', (req, res) => {
+      const { name } = req.params;
+      const functionsManager = this.agentMaster.getFunctionsManager();
+      if (!functionsManager.getFunctionVersions(name).length) {
+        res.status(404).json({ error: `Function ${name} not found` });
+        return;
+      }
+
+      res.json({
+        name,
+        route: functionsManager.getFunctionRoute(name),
+        current: functionsManager.getFunction(name)?.definition.version,
+      });
+    });
+
+    this.app.put('/api/functions/:name/route', async (req, res) => {
+      const { name } = req.params;
+      const { error, value } = functionRouteSchema.validate(req.body || {});
+      if (error) {
+        res.status(400).json({ error: error.details[0].message });
+        return;
+      }
+
+      const functionsManager = this.agentMaster.getFunctionsManager();
+      if (!functionsManager.getFunctionVersions(name).length) {
+        res.status(404).json({ error: `Function ${name} not found` });
+        return;
+      }
+
+      try {
+        const route = await functionsManager.setFunctionRoute(name, value);
+        res.json({ name, route, current: functionsManager.getFunction(name)?.definition.version });
+      } catch (routeError) {
+        res.status(400).json({ error: routeError instanceof Error ? routeError.message : 'Invalid route' });
+      }
+    });
+
+    this.app.delete('/api/functions/:name/route', async (req, res) => {
+      try {
+        const deleted = await this.agentMaster.getFunctionsManager().deleteFunctionRoute(req.params.name);
+        res.json({ success: deleted, message: deleted ? 'Route removed; calls use the latest version' : 'No route configured' });
+      } catch (routeError) {
+        logger.error('Error deleting function route:', routeError);
+        res.status(500).json({ error: 'Failed to delete route' });
+      }
+    });
+
+    // Re-imports one function ({ "name": "..." }) or all of them from disk
+    this.app.post('/api/functions/reload', async (req, res) => {
+      const { name } = req.body || {};
+      if (name !== undefined && typeof name !== 'string') {
+        res.status(400).json({ error: 'name must be a string' });
+        return;
+      }
+
+      const functionsManager = this.agentMaster.getFunctionsManager();
+      if (name && !functionsManager.getFunction(name)) {
+        res.status(404).json({ error: `Function ${name} not found` });
+        return;
+      }
+
+      try {
+        const result = name
+          ? await functionsManager.reloadFunction(name)
+          : await functionsManager.reloadFunctions();
+
+        res.json({ success: result.errors.length === 0, ...result });
+      } catch (error) {
+        logger.error('Error reloading functions:', error);
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to reload functions' });
+      }
+    });
+
     // Jobs management endpoints
     this.app.get('/api/jobs', async (req, res) => {
       try {
-        const jobs = this.agentMaster.getJobsQueueManager().getAllJobs();
+        const jobs = await this.agentMaster.getJobsQueueManager().getAllJobs();
         const stats = await this.agentMaster.getJobsQueueManager().getQueueStats();
         
         res.json({
-          jobs: jobs.map(job => ({
+          jobs: jobs.filter(job => this.canAccessJob(req, job)).map(job => ({
             id: job.id,
             functionName: job.data.functionName,
+            functionVersion: job.data.functionVersion,
+            parentJobId: job.data.parentJobId,
+            pipelineStep: job.data.pipelineStep,
             status: job.status,
             executionType: job.data.executionType,
             createdAt: job.createdAt,
@@ -214,15 +388,47 @@ class AIAgentServer {
       }
     });
 
-    this.app.get('/api/jobs/:id', (req, res) => {
+    this.app.get('/api/jobs/cron/preview', (req, res) => {
+      const { expression, timezone, count } = req.query;
+
+      if (!expression || typeof expression !== 'string') {
+        res.status(400).json({ error: 'expression query parameter is required' });
+        return;
+      }
+
+      try {
+        const nextRuns = getNextCronRuns(expression, {
+          timezone: typeof timezone === 'string' ? timezone : undefined,
+          count: count ? parseInt(count as string) : undefined,
+        });
+
+        res.json({
+          expression,
+          timezone: typeof timezone === 'string' ? timezone : config.jobs.timezone,
+          nextRuns,
+        });
+      } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid cron expression' });
+      }
+    });
+
+    this.app.get('/api/jobs/:id', async (req, res) => {
       try {
         const { id } = req.params;
-        const job = this.agentMaster.getJobsQueueManager().getJob(id);
+        const job = await this.agentMaster.getJobsQueueManager().getJob(id);
         
-        if (!job) {
+        if (!job || !this.canAccessJob(req, job)) {
           return res.status(404).json({ error: `Job ${id} not found` });
         }
 
+        if (job.data.executionType === JobExecutionType.CRON && job.status === JobStatus.PENDING) {
+          const nextRuns = getNextCronRuns(job.data.cronExpression!, {
+            timezone: job.data.timezone,
+            endDate: job.data.repeatDeadline,
+          });
+          return res.json({ job, nextRuns });
+        }
+
         res.json({ job });
       } catch (error) {
         logger.error('Error fetching job:', error);
@@ -264,6 +470,12 @@ class AIAgentServer {
     this.app.get('/api/jobs/:id/logs', async (req, res) => {
       try {
         const { id } = req.params;
+        const job = await this.agentMaster.getJobsQueueManager().getJob(id);
+        if (!job || !this.canAccessJob(req, job)) {
+          res.status(404).json({ error: `Job ${id} not found` });
+          return;
+        }
+
         const logs = await this.agentMaster.getJobsQueueManager().getJobLogs(id);
         
         res.json({ logs });
@@ -320,13 +532,7 @@ class AIAgentServer {
         const stats = this.agentMaster.getLLMManager().getInstanceStats();
         
         res.json({
-          instances: instances.map(instance => ({
-            id: instance.id,
-            provider: instance.config.provider,
-            model: instance.config.model,
-            createdAt: instance.createdAt,
-            lastUsed: instance.lastUsed,
-          })),
+          instances: instances.map(instance => redactLLMInstance(instance)),
           stats,
         });
       } catch (error) {
@@ -335,6 +541,373 @@ class AIAgentServer {
       }
     });
 
+    this.app.get('/api/llm/instances/:id', (req, res) => {
+      const instance = this.agentMaster.getLLMManager().getInstance(req.params.id);
+      if (!instance) {
+        res.status(404).json({ error: `LLM instance ${req.params.id} not found` });
+        return;
+      }
+
+      res.json({ instance: redactLLMInstance(instance) });
+    });
+
+    this.app.post('/api/llm/instances', (req, res) => {
+      const { error, value } = createLLMInstanceSchema.validate(req.body || {});
+      if (error) {
+        res.status(400).json({ error: 'Invalid LLM instance', details: error.details.map(detail => detail.message) });
+        return;
+      }
+
+      const llmManager = this.agentMaster.getLLMManager();
+      const apiKey = value.apiKey || llmManager.getConfiguredApiKey(value.provider);
+      if (!apiKey && llmManager.requiresApiKey(value.provider)) {
+        res.status(400).json({ error: `apiKey is required: no key is configured for provider ${value.provider}` });
+        return;
+      }
+
+      const baseURL = value.baseURL || llmManager.getConfiguredBaseURL(value.provider) || undefined;
+      if (value.provider === LLMProvider.OPENAI_COMPATIBLE && !baseURL) {
+        res.status(400).json({ error: 'baseURL is required: no server is configured for provider openai_compatible' });
+        return;
+      }
+
+      try {
+        const instanceId = llmManager.createInstance({ ...value, apiKey, baseURL });
+
+        res.status(201).json({ instance: redactLLMInstance(llmManager.getInstance(instanceId)!) });
+      } catch (createError) {
+        logger.error('Error creating LLM instance:', createError);
+        res.status(500).json({ error: 'Failed to create LLM instance' });
+      }
+    });
+
+    this.app.patch('/api/llm/instances/:id', (req, res) => {
+      const { error, value } = updateLLMInstanceSchema.validate(req.body || {});
+      if (error) {
+        res.status(400).json({ error: 'Invalid LLM instance update', details: error.details.map(detail => detail.message) });
+        return;
+      }
+
+      const llmManager = this.agentMaster.getLLMManager();
+      const { id } = req.params;
+      const instance = llmManager.getInstance(id);
+      if (!instance) {
+        res.status(404).json({ error: `LLM instance ${id} not found` });
+        return;
+      }
+
+      // The key and server of the old provider do not work with the new one, so omitted
+      // ones fall back to the new provider's configuration, as on creation
+      if (value.provider && value.provider !== instance.config.provider) {
+        value.apiKey = value.apiKey || llmManager.getConfiguredApiKey(value.provider);
+        if (!value.apiKey && llmManager.requiresApiKey(value.provider)) {
+          res.status(400).json({ error: `apiKey is required: no key is configured for provider ${value.provider}` });
+          return;
+        }
+
+        value.baseURL = value.baseURL || llmManager.getConfiguredBaseURL(value.provider) || undefined;
+        if (value.provider === LLMProvider.OPENAI_COMPATIBLE && !value.baseURL) {
+          res.status(400).json({ error: 'baseURL is required: no server is configured for provider openai_compatible' });
+          return;
+        }
+      }
+
+      if (!llmManager.editInstance(id, value)) {
+        res.status(500).json({ error: 'Failed to update LLM instance' });
+        return;
+      }
+
+      res.json({ instance: redactLLMInstance(llmManager.getInstance(id)!) });
+    });
+
+    this.app.delete('/api/llm/instances/:id', (req, res) => {
+      const { id } = req.params;
+
+      // A route, such as the orchestrator's, cannot lose its last instance; PATCH changes it instead
+      let deleted: boolean;
+      try {
+        deleted = this.agentMaster.getLLMManager().deleteInstance(id);
+      } catch (error) {
+        if (error instanceof LastRouteInstanceError) {
+          res.status(409).json({ error: error.message, routes: error.routes });
+          return;
+        }
+        throw error;
+      }
+      if (!deleted) {
+        res.status(404).json({ error: `LLM instance ${id} not found` });
+        return;
+      }
+
+      res.json({ success: true, message: 'LLM instance deleted' });
+    });
+
+    this.app.post('/api/llm/instances/:id/test', async (req, res) => {
+      const { id } = req.params;
+      const llmManager = this.agentMaster.getLLMManager();
+      if (!llmManager.getInstance(id)) {
+        res.status(404).json({ error: `LLM instance ${id} not found` });
+        return;
+      }
+
+      const startTime = Date.now();
+      const success = await llmManager.testInstance(id);
+
+      res.json({ success, latencyMs: Date.now() - startTime });
+    });
+
+    // LLM usage and cost, e.g. /api/usage?from=2024-05-01&to=2024-06-01&groupBy=tenantId,model
+    this.app.get('/api/usage', async (req, res) => {
+      const { from, to, groupBy, ...filters } = req.query as Record<string, string | undefined>;
+
+      const range = { from: from ? new Date(from) : undefined, to: to ? new Date(to) : undefined };
+      if ((range.from && isNaN(range.from.getTime())) || (range.to && isNaN(range.to.getTime()))) {
+        res.status(400).json({ error: 'from and to must be ISO dates' });
+        return;
+      }
+
+      const groupFields = groupBy ? groupBy.split(',').map(field => field.trim()) : [];
+      const invalid = groupFields.filter(field => !USAGE_GROUP_FIELDS.includes(field as UsageGroupBy));
+      if (invalid.length > 0) {
+        res.status(400).json({ error: `Invalid groupBy: ${invalid.join(', ')}`, allowed: USAGE_GROUP_FIELDS });
+        return;
+      }
+
+      try {
+        const report = await getUsageTracker().getUsage({
+          ...range,
+          groupBy: groupFields as UsageGroupBy[],
+          ...Object.fromEntries(
+            USAGE_GROUP_FIELDS.filter(field => typeof filters[field] === 'string').map(field => [field, filters[field]])
+          ),
+        });
+
+        res.json(report);
+      } catch (error) {
+        logger.error('Error fetching usage:', error);
+        res.status(500).json({ error: 'Failed to fetch usage' });
+      }
+    });
+
+    // Quota status and per-user / per-tenant overrides of the configured defaults
+    this.app.get('/api/quotas/:scope/:id', async (req, res) => {
+      const { scope, id } = req.params;
+      if (!QUOTA_SCOPES.includes(scope as QuotaScope)) {
+        res.status(400).json({ error: `scope must be one of: ${QUOTA_SCOPES.join(', ')}` });
+        return;
+      }
+
+      try {
+        const status = await getQuotaManager().getStatus(scope as QuotaScope, id);
+        res.json({ scope, id, enabled: getQuotaManager().isEnabled(), ...status });
+      } catch (error) {
+        logger.error('Error fetching quota status:', error);
+        res.status(500).json({ error: 'Failed to fetch quota status' });
+      }
+    });
+
+    this.app.put('/api/quotas/:scope/:id', async (req, res) => {
+      const { scope, id } = req.params;
+      if (!QUOTA_SCOPES.includes(scope as QuotaScope)) {
+        res.status(400).json({ error: `scope must be one of: ${QUOTA_SCOPES.join(', ')}` });
+        return;
+      }
+
+      const limits: Partial<IQuotaLimits> = {};
+      for (const name of QUOTA_LIMIT_NAMES) {
+        const value = req.body?.[name];
+        if (value === undefined) continue;
+        if (!Number.isInteger(value) || value < 0) {
+          res.status(400).json({ error: `${name} must be a non-negative integer (0 = unlimited)` });
+          return;
+        }
+        limits[name] = value;
+      }
+      if (Object.keys(limits).length === 0) {
+        res.status(400).json({ error: `Provide at least one of: ${QUOTA_LIMIT_NAMES.join(', ')}` });
+        return;
+      }
+
+      try {
+        res.json({ scope, id, limits: await getQuotaManager().setLimits(scope as QuotaScope, id, limits) });
+      } catch (error) {
+        logger.error('Error updating quota limits:', error);
+        res.status(500).json({ error: 'Failed to update quota limits' });
+      }
+    });
+
+    this.app.delete('/api/quotas/:scope/:id', async (req, res) => {
+      const { scope, id } = req.params;
+      if (!QUOTA_SCOPES.includes(scope as QuotaScope)) {
+        res.status(400).json({ error: `scope must be one of: ${QUOTA_SCOPES.join(', ')}` });
+        return;
+      }
+
+      try {
+        await getQuotaManager().resetLimits(scope as QuotaScope, id);
+        res.json({ success: true, message: 'Quota limits reset to the defaults' });
+      } catch (error) {
+        logger.error('Error resetting quota limits:', error);
+        res.status(500).json({ error: 'Failed to reset quota limits' });
+      }
+    });
+
+    // Auth endpoints
+    this.app.get('/api/auth/me', (req, res) => {
+      res.json({ principal: req.principal });
+    });
+
+    // Conversation history endpoints
+    this.app.get('/api/conversations/:sessionId', async (req, res) => {
+      try {
+        const { sessionId } = req.params;
+        const messages = await this.agentMaster.getConversationManager().getHistory(this.getSessionKey(req, sessionId));
+        
+        res.json({ sessionId, messages, count: messages.length });
+      } catch (error) {
+        logger.error('Error fetching conversation:', error);
+        res.status(500).json({ error: 'Failed to fetch conversation' });
+      }
+    });
+
+    this.app.delete('/api/conversations/:sessionId', async (req, res) => {
+      try {
+        const { sessionId } = req.params;
+        await this.agentMaster.getConversationManager().clearHistory(this.getSessionKey(req, sessionId));
+        
+        res.json({ success: true, message: 'Conversation cleared' });
+      } catch (error) {
+        logger.error('Error clearing conversation:', error);
+        res.status(500).json({ error: 'Failed to clear conversation' });
+      }
+    });
+
+    // Dead-letter queue endpoints
+    this.app.get('/api/messages/dead-letter', async (req, res) => {
+      try {
+        const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
+        const result = await this.agentMaster.getMessagingManager().getDeadLetterMessages(limit);
+
+        res.json(result);
+      } catch (error) {
+        logger.error('Error fetching dead-lettered messages:', error);
+        res.status(500).json({ error: 'Failed to fetch dead-lettered messages' });
+      }
+    });
+
+    this.app.post('/api/messages/dead-letter/replay', async (req, res) => {
+      try {
+        const { messageIds, limit } = req.body || {};
+
+        if (messageIds !== undefined && (!Array.isArray(messageIds) || messageIds.some(id => typeof id !== 'string'))) {
+          res.status(400).json({ error: 'messageIds must be an array of strings' });
+          return;
+        }
+
+        const replayed = await this.agentMaster.getMessagingManager().replayDeadLetterMessages(messageIds, limit);
+
+        res.json({ success: true, replayed, count: replayed.length });
+      } catch (error) {
+        logger.error('Error replaying dead-lettered messages:', error);
+        res.status(500).json({ error: 'Failed to replay dead-lettered messages' });
+      }
+    });
+
+    this.app.delete('/api/messages/dead-letter', async (req, res) => {
+      try {
+        const purged = await this.agentMaster.getMessagingManager().purgeDeadLetterMessages();
+
+        res.json({ success: true, purged });
+      } catch (error) {
+        logger.error('Error purging dead-letter queue:', error);
+        res.status(500).json({ error: 'Failed to purge dead-letter queue' });
+      }
+    });
+
+    // Synchronous chat endpoints, bypassing RabbitMQ
+    this.app.post('/api/chat', async (req, res) => {
+      try {
+        const { content, metadata } = req.body || {};
+
+        if (!content || typeof content !== 'string') {
+          res.status(400).json({ error: 'Content is required and must be a string' });
+          return;
+        }
+
+        const message = this.agentMaster.getMessagingManager().createIncomingMessage(
+          content,
+          this.withPrincipal(req, metadata)
+        );
+        const response = await this.agentMaster.processChatMessage(message);
+
+        res.status(response.status === 'success' ? 200 : 500).json(response);
+      } catch (error) {
+        if (error instanceof QuotaExceededError) {
+          res.set('Retry-After', String(error.retryAfterSeconds));
+          res.status(429).json({ error: error.message, ...error.toMetadata() });
+          return;
+        }
+        logger.error('Error handling chat message:', error);
+        res.status(500).json({ error: 'Failed to process chat message' });
+      }
+    });
+
+    this.app.post('/api/chat/stream', async (req, res) => {
+      const { content, metadata } = req.body || {};
+
+      if (!content || typeof content !== 'string') {
+        res.status(400).json({ error: 'Content is required and must be a string' });
+        return;
+      }
+
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      });
+
+      // The request emits close once its body has been read; the response only when the
+      // connection goes away, or after res.end()
+      let closed = false;
+      const disconnected = new AbortController();
+      res.on('close', () => {
+        closed = true;
+        if (!res.writableFinished) {
+          disconnected.abort(new ExecutionAbortedError('cancelled', 'The client disconnected'));
+        }
+      });
+
+      const sendEvent = (event: string, data: any) => {
+        if (!closed) {
+          res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        }
+      };
+
+      try {
+        const message = this.agentMaster.getMessagingManager().createIncomingMessage(
+          content,
+          this.withPrincipal(req, metadata)
+        );
+        sendEvent('start', { messageId: message.id });
+
+        let sequence = 0;
+        const response = await this.agentMaster.processChatMessage(message, {
+          onDelta: delta => sendEvent('delta', { delta, sequence: ++sequence }),
+          onReset: () => sendEvent('reset', { sequence: ++sequence }),
+        }, undefined, disconnected.signal);
+
+        sendEvent('done', response);
+      } catch (error) {
+        logger.error('Error streaming chat message:', error);
+        sendEvent('error', {
+          error: error instanceof Error ? error.message : 'Failed to process chat message',
+          ...(error instanceof QuotaExceededError && error.toMetadata()),
+        });
+      } finally {
+        res.end();
+      }
+    });
+
     // Test message endpoint for UI
     this.app.post('/api/test-message', async (req, res) => {
       try {
@@ -348,11 +921,11 @@ class AIAgentServer {
         const messagingManager = this.agentMaster.getMessagingManager();
         const testMessage = messagingManager.createIncomingMessage(
           content,
-          { ...metadata, testMode: true, timestamp: new Date().toISOString() }
+          { ...this.withPrincipal(req, metadata), testMode: true, timestamp: new Date().toISOString() }
         );
 
-        // Actually send the message to the incoming queue
-        await messagingManager.sendMessage(testMessage);
+        // Publish to the incoming exchange so it goes through the normal consumer
+        await messagingManager.publishIncomingMessage(testMessage);
 
         logger.info('Test message sent to RabbitMQ', { 
           messageId: testMessage.id, 
@@ -425,6 +998,9 @@ class AIAgentServer {
       res.redirect('/testing');
     });
 
+    // OpenAI-compatible API
+    this.setupOpenAICompatibleRoutes();
+
     // 404 handler
     this.app.use('*', (req, res) => {
       res.status(404).json({
@@ -432,14 +1008,38 @@ class AIAgentServer {
         availableEndpoints: [
           'GET /health',
           'GET /api/functions',
+          'POST /api/functions/reload',
+          'GET /api/functions/:name/route',
+          'PUT /api/functions/:name/route',
+          'DELETE /api/functions/:name/route',
           'GET /api/jobs',
+          'GET /api/jobs/cron/preview',
           'POST /api/jobs/:id/retry',
           'GET /api/jobs/:id/logs',
           'GET /api/jobs/queue/health',
           'POST /api/jobs/queue/pause',
           'POST /api/jobs/queue/resume',
           'GET /api/llm/instances',
+          'GET /api/llm/instances/:id',
+          'POST /api/llm/instances',
+          'PATCH /api/llm/instances/:id',
+          'DELETE /api/llm/instances/:id',
+          'POST /api/llm/instances/:id/test',
+          'GET /api/auth/me',
+          'GET /api/usage',
+          'GET /api/quotas/:scope/:id',
+          'PUT /api/quotas/:scope/:id',
+          'DELETE /api/quotas/:scope/:id',
+          'GET /api/conversations/:sessionId',
+          'DELETE /api/conversations/:sessionId',
+          'POST /api/chat',
+          'POST /api/chat/stream',
+          'GET /api/messages/dead-letter',
+          'POST /api/messages/dead-letter/replay',
+          'DELETE /api/messages/dead-letter',
           'POST /api/test-message',
+          'GET /v1/models',
+          'POST /v1/chat/completions',
           'GET /api/message-templates',
           'GET /testing (UI)',
         ],
@@ -447,6 +1047,176 @@ class AIAgentServer {
     });
   }
 
+  // OpenAI Chat Completions compatible facade, so existing clients and SDKs can point
+  // their base URL at the agent. The "agent" model runs the orchestrator with function
+  // execution; every LLM instance and route is also exposed as a model under its id.
+  private setupOpenAICompatibleRoutes(): void {
+    this.app.get('/v1/models', (req, res) => {
+      const created = Math.floor(Date.now() / 1000);
+      const instances = this.agentMaster.getLLMManager().getAllInstances();
+
+      res.json({
+        object: 'list',
+        data: [
+          { id: AGENT_MODEL_ID, object: 'model', created, owned_by: 'agent' },
+          ...instances.map(instance => ({
+            id: instance.id,
+            object: 'model',
+            created: Math.floor(instance.createdAt.getTime() / 1000),
+            owned_by: instance.config.provider,
+          })),
+          ...this.agentMaster.getLLMManager().getAllRoutes().map(route => ({
+            id: route.name,
+            object: 'model',
+            created,
+            owned_by: 'route',
+          })),
+        ],
+      });
+    });
+
+    this.app.post('/v1/chat/completions', async (req, res) => {
+      const { model, messages, stream, user } = req.body || {};
+
+      if (!model || typeof model !== 'string') {
+        res.status(400).json(openAIError('model is required'));
+        return;
+      }
+      if (!Array.isArray(messages) || messages.length === 0) {
+        res.status(400).json(openAIError('messages must be a non-empty array'));
+        return;
+      }
+
+      const llmManager = this.agentMaster.getLLMManager();
+      if (model !== AGENT_MODEL_ID && !llmManager.getInstance(model) && !llmManager.getRoute(model)) {
+        res.status(404).json(openAIError(`The model '${model}' does not exist`, 'invalid_request_error', 'model_not_found'));
+        return;
+      }
+
+      const history = toLLMMessages(messages);
+      const last = history[history.length - 1];
+      if (!last || last.role !== 'user') {
+        res.status(400).json(openAIError('The last message must be a user message'));
+        return;
+      }
+
+      const completionId = createCompletionId();
+      const callContext = this.withPrincipal(req, { userId: typeof user === 'string' ? user : undefined });
+
+      // The agent model is checked by processChatMessage; instances are checked here
+      if (model !== AGENT_MODEL_ID) {
+        try {
+          await getQuotaManager().checkRequest(callContext);
+        } catch (error) {
+          if (error instanceof QuotaExceededError) {
+            res.set('Retry-After', String(error.retryAfterSeconds));
+            res.status(429).json(openAIError(error.message, 'requests', 'rate_limit_exceeded'));
+            return;
+          }
+          logger.error('Error checking quotas:', error);
+          res.status(500).json(openAIError('Failed to check quotas', 'server_error'));
+          return;
+        }
+      }
+
+      // As for /api/chat/stream, a disconnect shows on the response, not the request
+      let closed = false;
+      const disconnected = new AbortController();
+      res.on('close', () => {
+        closed = true;
+        if (!res.writableFinished) {
+          disconnected.abort(new ExecutionAbortedError('cancelled', 'The client disconnected'));
+        }
+      });
+      const { signal } = disconnected;
+
+      const writeChunk = (chunk: any) => {
+        if (!closed) {
+          res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+        }
+      };
+
+      if (stream) {
+        res.writeHead(200, {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          Connection: 'keep-alive',
+        });
+        writeChunk(createCompletionChunk(completionId, model, { role: 'assistant', content: '' }));
+      }
+
+      try {
+        let content: string;
+        let usage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+        const onDelta = stream
+          ? (delta: string) => writeChunk(createCompletionChunk(completionId, model, { content: delta }))
+          : undefined;
+
+        if (model === AGENT_MODEL_ID) {
+          const message = this.agentMaster.getMessagingManager().createIncomingMessage(
+            last.content,
+            { userId: callContext.userId, tenantId: callContext.tenantId, source: 'openai-compatible' }
+          );
+          // Chunks cannot be taken back, so only the answering step is streamed
+          const response = await this.agentMaster.processChatMessage(message, onDelta && { onDelta }, history.slice(0, -1), signal);
+          if (response.status !== 'success') {
+            throw new Error(response.error || 'Orchestration failed');
+          }
+
+          content = response.response.content;
+          usage = response.usage || usage;
+        } else if (onDelta) {
+          content = '';
+          for await (const chunk of llmManager.streamResponse(model, history, undefined, signal, callContext)) {
+            if (chunk.delta) {
+              onDelta(chunk.delta);
+            }
+            if (chunk.done && chunk.response) {
+              content = chunk.response.content;
+              usage = chunk.response.usage || usage;
+            }
+          }
+        } else {
+          const response = await llmManager.generateChat(model, history, undefined, signal, callContext);
+          content = response.content;
+          usage = response.usage || usage;
+        }
+
+        if (stream) {
+          writeChunk(createCompletionChunk(completionId, model, {}, 'stop'));
+          if (!closed) {
+            res.write('data: [DONE]\n\n');
+          }
+          res.end();
+          return;
+        }
+
+        res.json(createCompletion(completionId, model, content, usage));
+      } catch (error) {
+        if (signal.aborted) {
+          logger.info('Chat completion abandoned by the client', { completionId });
+          res.end();
+          return;
+        }
+        logger.error('Error handling chat completion:', error);
+        const quotaError = error instanceof QuotaExceededError ? error : undefined;
+        const body = quotaError
+          ? openAIError(quotaError.message, 'requests', 'rate_limit_exceeded')
+          : openAIError(error instanceof Error ? error.message : 'Failed to create chat completion', 'server_error');
+
+        if (stream) {
+          writeChunk(body);
+          res.end();
+          return;
+        }
+        if (quotaError) {
+          res.set('Retry-After', String(quotaError.retryAfterSeconds));
+        }
+        res.status(quotaError ? 429 : 500).json(body);
+      }
+    });
+  }
+
   private setupErrorHandling(): void {
     // Global error handler
     this.app.use((error: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
@@ -500,6 +1270,8 @@ class AIAgentServer {
 
   public async start(): Promise<void> {
     try {
+      checkAuthConfig();
+
       this.server.listen(config.server.port, () => {
         logger.info(`🚀 AI Agent Server started on port ${config.server.port}`);
         logger.info(`🧪 Testing UI available at: http://localhost:${config.server.port}/testing`);
@@ -0,0 +1,189 @@
+import jwt from 'jsonwebtoken';
+import { createHash, timingSafeEqual } from 'crypto';
+import type { Request, Response, NextFunction } from 'express';
+import { logger } from '../utils/logger.js';
+import { config } from '../config/index.js';
+import { IPrincipal, Role } from '../types/index.js';
+
+declare global {
+  namespace Express {
+    interface Request {
+      principal?: IPrincipal;
+    }
+  }
+}
+
+const ROLE_RANK: Record<Role, number> = {
+  viewer: 1,
+  operator: 2,
+  admin: 3,
+};
+
+export const ROLES = Object.keys(ROLE_RANK) as Role[];
+
+// Used for every request while AUTH_ENABLED is off, so the API behaves as it did without auth
+const ANONYMOUS_PRINCIPAL: IPrincipal = { id: 'anonymous', role: 'admin', authMethod: 'none' };
+
+interface IRouteRule {
+  methods?: string[];
+  path: RegExp;
+  role: Role;
+}
+
+// Minimum role per route, first match wins. Paths are matched in lower case, since
+// Express routes are case-insensitive. Paths outside /api and /v1 that are not listed
+// here (health checks, static files) are public.
+export const ROUTE_ROLES: IRouteRule[] = [
+  { path: /^\/api\/auth\//, role: 'viewer' },
+  { path: /^\/api\/(llm|quotas|usage)(\/|$)/, role: 'admin' },
+  { methods: ['DELETE'], path: /^\/api\/messages\/dead-letter(\/|$)/, role: 'admin' },
+  { methods: ['POST'], path: /^\/api\/chat(\/stream)?$/, role: 'viewer' },
+  { path: /^\/api\/conversations(\/|$)/, role: 'viewer' },
+  { methods: ['GET'], path: /^\/api\/(functions|jobs|message-templates)(\/|$)/, role: 'viewer' },
+  { path: /^\/api(\/|$)/, role: 'operator' },
+  { path: /^\/v1(\/|$)/, role: 'viewer' },
+];
+
+// Anything under these prefixes that no rule covers still needs the strictest role
+const PROTECTED_PATH = /^\/(api|v1)(\/|$)/;
+const DEFAULT_JWT_SECRET = 'default-jwt-secret';
+
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+let apiKeys: { digest: Buffer; principal: IPrincipal }[] | null = null;
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && value in ROLE_RANK;
+}
+
+// Parsed once from API_KEYS ("key:role[:subject[:tenantId]]", comma-separated)
+function getApiKeys(): { digest: Buffer; principal: IPrincipal }[] {
+  if (!apiKeys) {
+    apiKeys = [];
+    for (const entry of config.security.apiKeys.split(',').map(item => item.trim()).filter(Boolean)) {
+      const [key, role, subject, tenantId] = entry.split(':');
+      if (!key || !isRole(role)) {
+        logger.warn(`Ignoring API_KEYS entry with a missing key or unknown role: ${role || '(none)'}`);
+        continue;
+      }
+      apiKeys.push({
+        digest: digest(key),
+        principal: { id: subject || `apikey:${key.slice(0, 6)}`, role, tenantId, authMethod: 'apiKey' },
+      });
+    }
+  }
+  return apiKeys;
+}
+
+export function isAuthEnabled(): boolean {
+  return config.security.authEnabled;
+}
+
+export function hasRole(principal: IPrincipal | undefined, role: Role): boolean {
+  return !!principal && ROLE_RANK[principal.role] >= ROLE_RANK[role];
+}
+
+// Resolves a bearer token or API key to a principal. Shared by the REST middleware
+// and the Socket.IO handshake.
+export function authenticateCredentials(credentials: { token?: string; apiKey?: string }): IPrincipal {
+  if (!isAuthEnabled()) {
+    return ANONYMOUS_PRINCIPAL;
+  }
+
+  if (credentials.apiKey) {
+    // Compare digests so the check takes the same time whatever the key
+    const candidate = digest(credentials.apiKey);
+    const match = getApiKeys().find(entry => timingSafeEqual(entry.digest, candidate));
+    if (!match) {
+      throw new AuthError('Invalid API key');
+    }
+    return match.principal;
+  }
+
+  if (credentials.token) {
+    let payload: string | jwt.JwtPayload;
+    try {
+      payload = jwt.verify(credentials.token, config.security.jwtSecret, { algorithms: ['HS256'] });
+    } catch (error) {
+      throw new AuthError(`Invalid token: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (typeof payload === 'string' || !payload.sub) {
+      throw new AuthError('Invalid token: missing subject');
+    }
+    if (payload.role !== undefined && !isRole(payload.role)) {
+      throw new AuthError(`Invalid token: unknown role ${payload.role}`);
+    }
+
+    return {
+      id: payload.sub,
+      role: payload.role || 'viewer',
+      tenantId: payload.tenantId,
+      authMethod: 'jwt',
+    };
+  }
+
+  throw new AuthError('Authentication required');
+}
+
+export function getBearerToken(header?: string): string | undefined {
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : undefined;
+}
+
+export function getRequiredRole(method: string, path: string): Role | undefined {
+  const normalized = path.toLowerCase();
+  const rule = ROUTE_ROLES.find(
+    candidate => (!candidate.methods || candidate.methods.includes(method)) && candidate.path.test(normalized)
+  );
+  if (rule) {
+    return rule.role;
+  }
+  return PROTECTED_PATH.test(normalized) ? 'admin' : undefined;
+}
+
+// Authenticates and authorizes a request against ROUTE_ROLES
+export function authenticate(req: Request, res: Response, next: NextFunction): void {
+  const path = req.originalUrl.split('?')[0];
+  const role = getRequiredRole(req.method, path);
+  if (!role) {
+    next();
+    return;
+  }
+
+  try {
+    req.principal = authenticateCredentials({
+      token: getBearerToken(req.headers.authorization),
+      apiKey: req.header('x-api-key'),
+    });
+  } catch (error) {
+    res.status(401).json({ error: error instanceof Error ? error.message : 'Authentication failed' });
+    return;
+  }
+
+  if (!hasRole(req.principal, role)) {
+    res.status(403).json({ error: `Requires the ${role} role` });
+    return;
+  }
+
+  next();
+}
+
+// Anyone could sign an admin token with the well-known default secret, so the server
+// refuses to start with it while auth is on
+export function checkAuthConfig(): void {
+  if (!isAuthEnabled()) {
+    logger.warn('Authentication is disabled; every request is treated as an admin (set AUTH_ENABLED=true)');
+  } else if (config.security.jwtSecret === DEFAULT_JWT_SECRET) {
+    throw new AuthError('JWT_SECRET must be set when authentication is enabled');
+  }
+}
@@ -1,11 +1,15 @@
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from '../utils/logger.js';
+import { closeRedisClient } from '../utils/redis.js';
+import { getNextCronRuns } from '../utils/cron.js';
+import { toAbortError } from '../utils/abort.js';
 import { config } from '../config/index.js';
 import {
   IIncomingMessage,
   IOutgoingMessage,
   IOrchestrationRequest,
   IOrchestrationResponse,
+  IChatStream,
   IHealthStatus,
   ILLMConfig,
   LLMProvider,
@@ -13,33 +17,68 @@ import {
   FunctionType,
   IJob,
   IJobData,
-  JobStatus,
   ILLMResponse,
   IExecutionContext,
+  IOrchestrationStep,
+  ILLMToolCall,
+  ILLMToolDefinition,
+  ILLMMessage,
+  IMessageRoute,
+  IMessageDelivery,
+  ILLMRoute,
+  ILLMCallContext,
+  IQuotaSubject,
+  IIdempotencyRecord,
 } from '../types/index.js';
 import { FunctionsManager } from './FunctionsManager.js';
 import { MessagingManager } from './MessagingManager.js';
 import { JobsQueueManager } from './JobsQueueManager.js';
 import { LLMManager } from './LLMManager.js';
+import { ConversationManager } from './ConversationManager.js';
+import { getUsageTracker } from './UsageTracker.js';
+import { getQuotaManager, QuotaExceededError } from './QuotaManager.js';
+import { IdempotencyManager, MessageInProgressError } from './IdempotencyManager.js';
 import { Server } from 'socket.io';
 
+const ORCHESTRATION_ROUTE = 'orchestration';
+
+// Socket.IO rooms: operators and admins see every message event, other users only their own
+export const ALL_EVENTS_ROOM = 'events:all';
+
+export function getUserRoom(userId: string): string {
+  return `user:${userId}`;
+}
+
+export interface IAgentMasterModules {
+  functionsManager: FunctionsManager;
+  messagingManager: MessagingManager;
+  jobsQueueManager: JobsQueueManager;
+}
+
 export class AgentMaster {
   private functionsManager: FunctionsManager;
   private messagingManager: MessagingManager;
   private jobsQueueManager: JobsQueueManager;
   private llmManager: LLMManager;
-  private orchestrationMasterInstanceId: string;
+  private conversationManager: ConversationManager;
+  private idempotencyManager: IdempotencyManager;
+  private orchestrationRouteName: string;
   private isInitialized: boolean = false;
   private activeRequests: Map<string, IOrchestrationRequest> = new Map();
   private io: Server | null = null;
 
-  constructor() {
-    this.functionsManager = new FunctionsManager();
-    this.messagingManager = new MessagingManager();
-    this.jobsQueueManager = new JobsQueueManager(this.functionsManager);
+  // Modules that are passed in replace the defaults, e.g. in-process stand-ins for
+  // RabbitMQ and BullMQ in end-to-end tests
+  constructor(modules: Partial<IAgentMasterModules> = {}) {
+    this.functionsManager = modules.functionsManager || new FunctionsManager();
+    this.functionsManager.setEventListener((event, data) => this.emitEvent(event, data));
+    this.messagingManager = modules.messagingManager || new MessagingManager();
+    this.jobsQueueManager = modules.jobsQueueManager || new JobsQueueManager(this.functionsManager);
     this.llmManager = new LLMManager();
+    this.idempotencyManager = new IdempotencyManager();
     
-    this.orchestrationMasterInstanceId = this.createOrchestrationMaster();
+    this.orchestrationRouteName = this.createOrchestrationMaster();
+    this.conversationManager = new ConversationManager(this.llmManager, this.orchestrationRouteName);
     this.initialize().catch(error => {
       logger.error('Failed to initialize AgentMaster:', error);
       throw error;
@@ -50,6 +89,10 @@ export class AgentMaster {
     try {
       logger.info('Initializing AgentMaster...');
 
+      // Function routes are loaded and job records rebuilt before any message can use them
+      await this.functionsManager.initialize();
+      await this.jobsQueueManager.initialize();
+
       // Wait for RabbitMQ connection
       await this.messagingManager.waitForConnection();
 
@@ -70,7 +113,9 @@ export class AgentMaster {
     }
   }
 
-  private async handleIncomingMessage(message: IIncomingMessage): Promise<void> {
+  // Throws when processing failed, so MessagingManager retries the message and
+  // dead-letters it after its last attempt. Only the last attempt sends an error reply.
+  private async handleIncomingMessage(message: IIncomingMessage, delivery: IMessageDelivery): Promise<void> {
     const requestId = uuidv4();
     logger.info('handleIncomingMessage called', { 
       messageId: message.id,
@@ -78,10 +123,10 @@ export class AgentMaster {
       metadata: message.metadata
     });
     
-    // Check if message is already being processed
+    // A copy of a message this instance is still processing comes back later, when it
+    // gets the stored reply
     if (this.activeRequests.has(message.id)) {
-      logger.warn('Message already being processed', { messageId: message.id });
-      return;
+      throw new MessageInProgressError(message.id);
     }
 
     // Validate message format
@@ -96,24 +141,28 @@ export class AgentMaster {
       return;
     }
 
+    const route = this.messagingManager.getReplyRoute(message);
+
+    // RabbitMQ redelivers after crashes and requeues, and clients may resend
+    const previous = await this.idempotencyManager.claim(message);
+    if (previous) {
+      await this.handleDuplicateMessage(message, previous, route);
+      return;
+    }
+
+    let completed = false;
     try {
+      await getQuotaManager().checkRequest(this.getQuotaSubject(message));
+
       logger.info(`Processing incoming message: ${message.id}`, { requestId });
       this.emitEvent('message:processing', { 
         messageId: message.id, 
         status: 'processing',
         timestamp: new Date()
-      });
+      }, message.metadata?.userId);
 
-      const request: IOrchestrationRequest = {
-        message,
-        context: {
-          jobId: requestId,
-          sessionId: message.metadata?.sessionId,
-          userId: message.metadata?.userId,
-          metadata: { requestId, messageId: message.id },
-          logger,
-        },
-      };
+      const stream = this.createDeltaRelay(message, route);
+      const request = this.buildOrchestrationRequest(message, requestId, stream);
 
       this.activeRequests.set(message.id, request);
 
@@ -122,7 +171,7 @@ export class AgentMaster {
         messageId: message.id,
         status: 'orchestrating',
         timestamp: new Date()
-      });
+      }, message.metadata?.userId);
 
       logger.info('Calling orchestrationMaster', { request });
       const response = await this.orchestrationMaster(request);
@@ -131,60 +180,284 @@ export class AgentMaster {
       if (!response || !response.response) {
         throw new Error('Invalid response from orchestration');
       }
+      // A failure may be transient, e.g. an LLM outage, so it is not stored as the reply.
+      // The catch below releases the claim and a resend runs again.
+      if (response.status !== 'success') {
+        throw new Error(response.error || 'Orchestration failed');
+      }
 
       // Send response via MessagingManager
       this.emitEvent('message:responding', {
         messageId: message.id,
         status: 'sending_response',
         timestamp: new Date()
-      });
+      }, message.metadata?.userId);
+
+      // Partial messages must all be published before the final one
+      const sequence = await stream.flush();
+      if (config.orchestration.streamToQueue) {
+        response.response.metadata = { ...response.response.metadata, sequence: sequence + 1, final: true };
+      }
+
+      // Stored before sending, so a redelivery after a failed send still gets the reply
+      await this.idempotencyManager.complete(message, response.response);
+      completed = true;
 
       logger.info('Sending response', { response });
-      await this.messagingManager.sendMessage(response.response);
+      await this.messagingManager.sendMessage(response.response, route);
 
       this.emitEvent('message:complete', {
         messageId: message.id,
         status: 'complete',
         response: response.response,
         timestamp: new Date()
-      });
+      }, message.metadata?.userId);
 
       logger.info(`Message processed successfully: ${message.id}`, { 
         requestId, 
         status: response.status 
       });
     } catch (error) {
+      // Failed messages are processed again when redelivered or resent
+      if (!completed) {
+        await this.idempotencyManager.release(message);
+      }
+
+      // A quota rejection is answered right away; retrying it soon would be rejected too
+      const quotaError = error instanceof QuotaExceededError ? error : undefined;
+      if (!quotaError && !delivery.lastAttempt) {
+        logger.warn(`Processing message ${message.id} failed; it will be retried`, {
+          attempt: delivery.attempt,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      }
+
       logger.error(`Error processing message ${message.id}:`, error);
       this.emitEvent('message:error', {
         messageId: message.id,
         status: 'error',
         error: error instanceof Error ? error.message : 'Unknown error',
         timestamp: new Date()
-      });
+      }, message.metadata?.userId);
 
-      // Send error response
+      // Send error response; quota rejections tell the client when to try again
       const errorResponse = this.messagingManager.createOutgoingMessage(
-        `I apologize, but I encountered an error while processing your request: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        quotaError
+          ? quotaError.message
+          : `I apologize, but I encountered an error while processing your request: ${error instanceof Error ? error.message : 'Unknown error'}`,
         { 
           error: true, 
           requestId,
           originalMessageId: message.id,
           errorTimestamp: new Date().toISOString(),
+          ...quotaError?.toMetadata(),
           isResponse: true // Mark as response to prevent reprocessing
         }
       );
       
       try {
-        await this.messagingManager.sendMessage(errorResponse);
+        await this.messagingManager.sendMessage(errorResponse, route);
       } catch (sendError) {
         logger.error('Failed to send error response:', sendError);
       }
+
+      if (!quotaError) {
+        throw error;
+      }
+    } finally {
+      this.activeRequests.delete(message.id);
+    }
+  }
+
+  // A message that was completed gets its stored reply re-sent. One that is still in
+  // progress, on this instance or another, is handed back to RabbitMQ for a later redelivery.
+  private async handleDuplicateMessage(
+    message: IIncomingMessage,
+    previous: IIdempotencyRecord,
+    route: IMessageRoute
+  ): Promise<void> {
+    if (previous.status === 'completed' && previous.response) {
+      logger.info(`Message ${message.id} was already processed; re-sending its reply`, {
+        originalMessageId: previous.messageId,
+      });
+      await this.messagingManager.sendMessage({
+        ...previous.response,
+        metadata: { ...previous.response.metadata, duplicate: true },
+      }, route);
+      return;
+    }
+
+    throw new MessageInProgressError(message.id);
+  }
+
+  private getQuotaSubject(message: IIncomingMessage): IQuotaSubject {
+    return { userId: message.metadata?.userId, tenantId: message.metadata?.tenantId };
+  }
+
+  private buildOrchestrationRequest(
+    message: IIncomingMessage,
+    requestId: string,
+    stream?: IChatStream,
+    history?: ILLMMessage[],
+    signal?: AbortSignal
+  ): IOrchestrationRequest {
+    return {
+      message,
+      context: {
+        jobId: requestId,
+        sessionId: message.metadata?.sessionId,
+        userId: message.metadata?.userId,
+        metadata: { requestId, messageId: message.id, tenantId: message.metadata?.tenantId },
+        logger,
+      },
+      stream,
+      history,
+      signal,
+    };
+  }
+
+  // Runs a message through orchestration and returns the result to the caller,
+  // for HTTP clients that want request/response without going through RabbitMQ.
+  // Aborting the signal stops the LLM calls and cancels the instant job being waited on.
+  public async processChatMessage(
+    message: IIncomingMessage,
+    stream?: IChatStream,
+    history?: ILLMMessage[],
+    signal?: AbortSignal
+  ): Promise<IOrchestrationResponse> {
+    if (this.activeRequests.has(message.id)) {
+      throw new Error(`Message ${message.id} is already being processed`);
+    }
+
+    // Throws QuotaExceededError, which HTTP callers turn into a 429
+    await getQuotaManager().checkRequest(this.getQuotaSubject(message));
+
+    const requestId = uuidv4();
+    const request = this.buildOrchestrationRequest(message, requestId, stream, history, signal);
+    this.activeRequests.set(message.id, request);
+
+    try {
+      logger.info(`Processing chat message: ${message.id}`, { requestId });
+      this.emitEvent('message:processing', {
+        messageId: message.id,
+        status: 'processing',
+        timestamp: new Date()
+      }, message.metadata?.userId);
+
+      const response = await this.orchestrationMaster(request);
+
+      this.emitEvent('message:complete', {
+        messageId: message.id,
+        status: 'complete',
+        response: response.response,
+        timestamp: new Date()
+      }, message.metadata?.userId);
+
+      return response;
     } finally {
       this.activeRequests.delete(message.id);
     }
   }
 
+  private createDeltaRelay(message: IIncomingMessage, route: IMessageRoute): IChatStream & {
+    flush: () => Promise<number>;
+  } {
+    let sequence = 0;
+    let pending: Promise<void> = Promise.resolve();
+
+    // A reset is relayed as a partial message with no text and reset: true
+    const relay = (delta: string, reset: boolean) => {
+      sequence++;
+      const current = sequence;
+      this.emitEvent(reset ? 'message:reset' : 'message:delta', {
+        messageId: message.id,
+        ...(!reset && { delta }),
+        sequence: current,
+        timestamp: new Date()
+      }, message.metadata?.userId);
+
+      if (config.orchestration.streamToQueue) {
+        const partial = this.messagingManager.createOutgoingMessage(delta, {
+          originalMessageId: message.id,
+          partial: true,
+          ...(reset && { reset: true }),
+          sequence: current,
+          isResponse: true // Mark as response to prevent reprocessing
+        });
+        // Chain publishes so partials leave in sequence order
+        pending = pending
+          .then(() => this.messagingManager.sendMessage(partial, route))
+          .catch(error => {
+            logger.error('Failed to send partial message:', error);
+          });
+      }
+    };
+
+    return {
+      onDelta: delta => {
+        if (delta) {
+          relay(delta, false);
+        }
+      },
+      onReset: () => relay('', true),
+      flush: async () => {
+        await pending;
+        return sequence;
+      },
+    };
+  }
+
+  private getCallContext(request: IOrchestrationRequest): ILLMCallContext {
+    return {
+      requestId: request.context?.metadata?.requestId,
+      sessionId: request.context?.sessionId,
+      userId: request.context?.userId,
+      tenantId: request.context?.metadata?.tenantId,
+    };
+  }
+
+  // With tools, the text of a step is only part of the answer if the step calls no
+  // functions, which is known once the step ends
+  private async streamChat(
+    messages: ILLMMessage[],
+    tools: ILLMToolDefinition[] | undefined,
+    stream: IChatStream,
+    callContext?: ILLMCallContext,
+    signal?: AbortSignal
+  ): Promise<ILLMResponse> {
+    const live = !tools || Boolean(stream.onReset);
+    const held: string[] = [];
+    let streamed = false;
+
+    for await (const chunk of this.llmManager.streamResponse(this.orchestrationRouteName, messages, tools, signal, callContext)) {
+      if (chunk.delta) {
+        if (live) {
+          stream.onDelta(chunk.delta);
+          streamed = true;
+        } else {
+          held.push(chunk.delta);
+        }
+      }
+      if (chunk.done && chunk.response) {
+        if (!chunk.response.toolCalls?.length) {
+          held.forEach(delta => stream.onDelta(delta));
+        } else if (streamed) {
+          stream.onReset?.();
+        }
+        return chunk.response;
+      }
+    }
+
+    throw new Error('LLM stream ended without a final response');
+  }
+
   private async orchestrationMaster(request: IOrchestrationRequest): Promise<IOrchestrationResponse> {
+    const callContext = this.getCallContext(request);
+    const usageTracker = getUsageTracker();
+    const requestId = callContext.requestId || request.message.id;
+    usageTracker.beginRequest(requestId);
+
     try {
       logger.info('OrchestrationMaster processing request', { 
         messageId: request.message.id 
@@ -194,61 +467,134 @@ export class AgentMaster {
         throw new Error('LLM Manager not initialized');
       }
 
-      // Get available function definitions
-      const functionDefinitions = this.functionsManager.getFunctionDefinitions();
-      const functionsContext = JSON.stringify(functionDefinitions, null, 2);
-
-      // Prepare the prompt for the LLM
-      const analysisPrompt = `
-Message to analyze: "${request.message.content}"
+      const tools = this.getOrchestrationTools();
+
+      // Continue the session's conversation, if the message belongs to one
+      const sessionId = request.history ? undefined : request.context?.sessionId;
+      const history = request.history || (sessionId ? await this.conversationManager.getHistory(sessionId) : []);
+      const messages: ILLMMessage[] = [...history, { role: 'user', content: request.message.content }];
+
+      const { maxSteps, tokenBudget } = config.orchestration;
+      const executedJobs: string[] = [];
+      const steps: IOrchestrationStep[] = [];
+      let tokensUsed = 0;
+      let decision: any = null;
+      let result: { responseText: string; executedJobs?: string[] } | null = null;
+
+      // Plan–act–observe loop: every instant function result is fed back to the
+      // LLM until it decides to answer, or the step limit / token budget is hit
+      while (!decision && steps.length < maxSteps && tokensUsed < tokenBudget) {
+        if (request.signal?.aborted) {
+          throw toAbortError(request.signal);
+        }
 
-Available functions:
-${functionsContext}
+        // Get LLM decision
+        const llmResponse = request.stream
+          ? await this.streamChat(messages, tools, request.stream, callContext, request.signal)
+          : await this.llmManager.generateChat(this.orchestrationRouteName, messages, tools, request.signal, callContext);
 
-Analyze this message and determine the appropriate action. Consider:
-1. What is the user trying to accomplish?
-2. Which function(s) can help achieve this goal?
-3. What parameters are needed?
-4. What execution type is most appropriate?
+        if (!llmResponse) {
+          throw new Error('Invalid response from LLM');
+        }
 
-Respond with the JSON structure as specified in your system prompt.`;
+        tokensUsed += llmResponse.usage?.totalTokens || 0;
+        logger.info('LLM analysis completed', { 
+          step: steps.length + 1,
+          responseLength: llmResponse.content.length,
+          toolCalls: llmResponse.toolCalls?.length || 0,
+          tokensUsed,
+        });
 
-      // Get LLM decision
-      const llmResponse = await this.llmManager.generateResponse(
-        this.orchestrationMasterInstanceId,
-        analysisPrompt
-      );
+        // A plain text answer without tool calls is the final response
+        if (!llmResponse.toolCalls || llmResponse.toolCalls.length === 0) {
+          decision = { action: 'direct_response', response_message: llmResponse.content };
+          logger.info('LLM decision', { decision });
+          break;
+        }
 
-      if (!llmResponse || !llmResponse.content) {
-        throw new Error('Invalid response from LLM');
+        messages.push({ role: 'assistant', content: llmResponse.content, toolCalls: llmResponse.toolCalls });
+
+        // Models may request several independent function calls in a single turn
+        for (const toolCall of llmResponse.toolCalls) {
+          const candidate = this.toolCallToDecision(toolCall, llmResponse.content);
+          logger.info('LLM decision', { decision: candidate });
+
+          let toolResult: string;
+          if (decision || steps.length >= maxSteps) {
+            // Every tool call needs a result, even the ones we skip
+            toolResult = 'Not executed: the request was completed by an earlier action or hit the step limit.';
+          } else if (toolCall.error) {
+            // Lets the model retry the call with well-formed arguments
+            toolResult = `Error: ${toolCall.error}`;
+          } else if (!this.isInstantFunctionDecision(candidate)) {
+            decision = candidate;
+            result = await this.executeDecision(candidate, request, executedJobs);
+            toolResult = result.responseText;
+          } else {
+            const step = await this.executeFunctionStep(candidate, request, executedJobs);
+            steps.push(step);
+            this.emitEvent('message:step', {
+              messageId: request.message.id,
+              step: steps.length,
+              functionName: step.functionName,
+              jobId: step.jobId,
+              status: step.error ? 'failed' : 'completed',
+              timestamp: new Date()
+            }, request.message.metadata?.userId);
+            toolResult = step.validationErrors
+              ? JSON.stringify({ error: step.error, validationErrors: step.validationErrors })
+              : step.error ? `Error: ${step.error}` : JSON.stringify(step.result ?? null);
+          }
+
+          messages.push({ role: 'tool', toolCallId: toolCall.id, name: toolCall.name, content: toolResult });
+        }
       }
 
-      logger.info('LLM analysis completed', { 
-        responseLength: llmResponse.content.length 
-      });
-
-      // Parse LLM response
-      const decision = this.parseLLMDecision(llmResponse.content);
-      logger.info('LLM decision', { decision });
-
-      // Execute the decision
-      const result = await this.executeDecision(decision, request);
+      // Use the final answer, or summarize the steps if the loop was cut short
+      if (!result) {
+        if (!decision) {
+          logger.warn('Orchestration loop stopped before a final decision', {
+            messageId: request.message.id,
+            steps: steps.length,
+            maxSteps,
+            tokensUsed,
+            tokenBudget,
+          });
+        }
+        result = {
+          responseText: decision?.response_message || (steps.length > 0
+            ? await this.generateContextualResponse(request.message.content, steps, undefined, request.stream, callContext, request.signal)
+            : 'I\'ve processed your message.'),
+          executedJobs,
+        };
+      }
       logger.info('Decision executed', { result });
 
+      if (sessionId) {
+        await this.conversationManager.appendTurn(sessionId, [
+          ...messages.slice(history.length),
+          { role: 'assistant', content: result.responseText },
+        ]);
+      }
+
       // Generate final response
       const responseMessage = this.messagingManager.createOutgoingMessage(
         result.responseText,
         {
           originalMessageId: request.message.id,
-          action: decision.action,
-          executedJobs: result.executedJobs,
+          action: decision?.action || 'execute_function',
+          executedJobs,
+          steps: steps.length,
+          tokensUsed,
           isResponse: true // Mark as response to prevent reprocessing
         }
       );
 
       return {
         response: responseMessage,
-        executedJobs: result.executedJobs,
+        executedJobs,
+        steps,
+        usage: usageTracker.endRequest(requestId),
         status: 'success',
       };
     } catch (error) {
@@ -264,49 +610,92 @@ Respond with the JSON structure as specified in your system prompt.`;
       );
       return {
         response: errorMessage,
+        usage: usageTracker.endRequest(requestId),
         status: 'failure',
         error: error instanceof Error ? error.message : 'Unknown error',
       };
     }
   }
 
-  private parseLLMDecision(response: string): any {
-    try {
-      // Extract JSON from response (handle cases where LLM adds explanatory text)
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON found in LLM response');
-      }
+  private getOrchestrationTools(): ILLMToolDefinition[] {
+    return [
+      ...this.functionsManager.getFunctionDefinitions(),
+      {
+        name: 'schedule_function',
+        description: 'Run a function later (schedule), repeatedly (repeat) or on a calendar (cron) instead of immediately. repeat and cron are for RUNNER functions only',
+        parameters: [
+          { name: 'function_name', type: 'string', description: 'Name of the function to run', required: true },
+          { name: 'parameters', type: 'object', description: 'Parameters to pass to the function', required: true },
+          { name: 'execution_type', type: 'string', description: 'Execution type', required: true, enum: ['schedule', 'repeat', 'cron'] },
+          { name: 'schedule_time', type: 'string', description: 'ISO timestamp to run at (schedule only)', required: false },
+          { name: 'repeat_interval', type: 'number', description: 'Interval between runs in milliseconds (repeat only)', required: false },
+          { name: 'repeat_deadline', type: 'string', description: 'ISO timestamp after which repeating stops (repeat and cron)', required: false },
+          { name: 'cron_expression', type: 'string', description: 'Cron expression, e.g. "0 9 * * 1-5" for every weekday at 9am (cron only)', required: false },
+          { name: 'timezone', type: 'string', description: 'IANA timezone the cron expression is evaluated in, e.g. "Europe/Paris" (cron only)', required: false },
+          { name: 'response_message', type: 'string', description: 'Confirmation message for the user', required: false },
+        ],
+      },
+      {
+        name: 'cancel_job',
+        description: 'Cancel a queued, scheduled or repeating job',
+        parameters: [
+          { name: 'job_id', type: 'string', description: 'ID of the job to cancel', required: true },
+        ],
+      },
+      {
+        name: 'get_status',
+        description: 'Report the current status of jobs, functions and system modules',
+        parameters: [],
+      },
+    ];
+  }
 
-      const decision = JSON.parse(jsonMatch[0]);
-      
-      // Validate required fields
-      if (!decision.action) {
-        throw new Error('Missing action in LLM decision');
-      }
+  private toolCallToDecision(toolCall: ILLMToolCall, content: string): any {
+    const args = toolCall.arguments || {};
 
-      return decision;
-    } catch (error) {
-      logger.error('Error parsing LLM decision:', error);
-      logger.error('Raw LLM response:', response);
-      
-      // Fallback to direct response
-      return {
-        action: 'direct_response',
-        response_message: 'I understand your message, but I need more specific instructions to help you effectively.',
-      };
+    switch (toolCall.name) {
+      case 'schedule_function':
+        return {
+          action: 'execute_function',
+          function_name: args.function_name,
+          parameters: args.parameters || {},
+          execution_type: args.execution_type,
+          schedule_time: args.schedule_time,
+          repeat_interval: args.repeat_interval,
+          repeat_deadline: args.repeat_deadline,
+          cron_expression: args.cron_expression,
+          timezone: args.timezone,
+          response_message: args.response_message || content || undefined,
+        };
+
+      case 'cancel_job':
+        return { action: 'cancel_job', job_id: args.job_id };
+
+      case 'get_status':
+        return { action: 'get_status' };
+
+      default:
+        return {
+          action: 'execute_function',
+          function_name: toolCall.name,
+          parameters: args,
+          execution_type: JobExecutionType.INSTANT,
+        };
     }
   }
 
-  private async executeDecision(decision: any, request: IOrchestrationRequest): Promise<{
+  private isInstantFunctionDecision(decision: any): boolean {
+    return decision.action === 'execute_function' &&
+      (!decision.execution_type || decision.execution_type === JobExecutionType.INSTANT);
+  }
+
+  private async executeDecision(decision: any, request: IOrchestrationRequest, executedJobs: string[]): Promise<{
     responseText: string;
     executedJobs?: string[];
   }> {
-    const executedJobs: string[] = [];
-
     switch (decision.action) {
       case 'execute_function':
-        return await this.executeFunctionDecision(decision, request, executedJobs);
+        return await this.scheduleFunctionDecision(decision, request, executedJobs);
       
       case 'cancel_job':
         return await this.cancelJobDecision(decision);
@@ -322,83 +711,134 @@ Respond with the JSON structure as specified in your system prompt.`;
     }
   }
 
-  private async executeFunctionDecision(
-    decision: any, 
-    request: IOrchestrationRequest, 
+  private buildJobData(decision: any, request: IOrchestrationRequest): IJobData {
+    if (!decision.function_name) {
+      throw new Error('Function name is required for execute_function action');
+    }
+
+    // Validate function exists and pick the version (route or canary) the job is pinned to
+    const callContext = this.getCallContext(request);
+    const func = this.functionsManager.resolveFunction(
+      decision.function_name,
+      callContext.userId || callContext.sessionId
+    );
+    if (!func) {
+      logger.error('Function not found', { functionName: decision.function_name });
+      throw new Error(`Function ${decision.function_name} not found`);
+    }
+
+    return {
+      functionName: decision.function_name,
+      functionVersion: func.definition.version,
+      parameters: decision.parameters || {},
+      executionType: decision.execution_type || JobExecutionType.INSTANT,
+      scheduleTime: decision.schedule_time ? new Date(decision.schedule_time) : undefined,
+      repeatInterval: decision.repeat_interval,
+      repeatDeadline: decision.repeat_deadline ? new Date(decision.repeat_deadline) : undefined,
+      cronExpression: decision.cron_expression,
+      timezone: decision.timezone,
+      ...callContext,
+    };
+  }
+
+  private async executeFunctionStep(
+    decision: any,
+    request: IOrchestrationRequest,
     executedJobs: string[]
-  ): Promise<{ responseText: string; executedJobs: string[] }> {
+  ): Promise<IOrchestrationStep> {
+    const step: IOrchestrationStep = {
+      functionName: decision.function_name,
+      parameters: decision.parameters || {},
+    };
+
     try {
-      logger.info('Starting executeFunctionDecision', { 
+      logger.info('Starting executeFunctionStep', { 
+        messageId: request.message.id,
         functionName: decision.function_name,
         parameters: decision.parameters,
-        executionType: decision.execution_type 
       });
 
-      if (!decision.function_name) {
-        throw new Error('Function name is required for execute_function action');
+      const jobData = this.buildJobData(decision, request);
+
+      // Reject bad arguments before queueing, so the LLM can correct them per field
+      const validation = this.functionsManager.validateFunctionCall(
+        jobData.functionName,
+        jobData.parameters,
+        jobData.functionVersion
+      );
+      if (!validation.valid) {
+        step.error = `Invalid parameters for function ${jobData.functionName}`;
+        step.validationErrors = validation.errors;
+        return step;
       }
+      jobData.parameters = validation.parameters;
 
-      // Validate function exists
-      const func = this.functionsManager.getFunction(decision.function_name);
-      if (!func) {
-        logger.error('Function not found', { functionName: decision.function_name });
-        throw new Error(`Function ${decision.function_name} not found`);
+      // Add job to queue
+      logger.info('Adding job to queue', { jobData });
+      const jobId = await this.jobsQueueManager.addJob(jobData);
+      executedJobs.push(jobId);
+      step.jobId = jobId;
+
+      // Waits as long as all attempts of the job may take; cancelling the job rejects immediately
+      logger.info('Waiting for instant job completion', { jobId });
+      step.result = await this.jobsQueueManager.awaitJob(jobId, { signal: request.signal });
+      logger.info('Job completed successfully', { jobId, result: step.result });
+    } catch (error) {
+      // Nobody is left to use the result
+      if (step.jobId && request.signal?.aborted) {
+        await this.jobsQueueManager.cancelJob(step.jobId).catch(cancelError => {
+          logger.error(`Failed to cancel job ${step.jobId}:`, cancelError);
+        });
       }
+      // Failures are observations too: the LLM gets a chance to recover from them
+      logger.error('Error executing function step:', error);
+      step.error = error instanceof Error ? error.message : 'Unknown error';
+    }
 
-      logger.info('Function found, preparing job data', { 
-        functionName: decision.function_name
-      });
+    return step;
+  }
 
-      const jobData: IJobData = {
+  private async scheduleFunctionDecision(
+    decision: any, 
+    request: IOrchestrationRequest,
+    executedJobs: string[]
+  ): Promise<{ responseText: string; executedJobs: string[] }> {
+    try {
+      logger.info('Starting scheduleFunctionDecision', { 
         functionName: decision.function_name,
-        parameters: decision.parameters || {},
-        executionType: decision.execution_type || JobExecutionType.INSTANT,
-        scheduleTime: decision.schedule_time ? new Date(decision.schedule_time) : undefined,
-        repeatInterval: decision.repeat_interval,
-        repeatDeadline: decision.repeat_deadline ? new Date(decision.repeat_deadline) : undefined,
-      };
+        parameters: decision.parameters,
+        executionType: decision.execution_type 
+      });
+
+      const jobData = this.buildJobData(decision, request);
 
       // Add job to queue
       logger.info('Adding job to queue', { jobData });
       const jobId = await this.jobsQueueManager.addJob(jobData);
       executedJobs.push(jobId);
 
-      logger.info(`Job queued successfully: ${jobId}`, { 
-        functionName: decision.function_name,
+      logger.info('Scheduled job created', { 
+        jobId, 
         executionType: jobData.executionType 
       });
 
-      // Wait for instant jobs to complete
-      if (jobData.executionType === JobExecutionType.INSTANT) {
-        logger.info('Waiting for instant job completion', { jobId });
-        const result = await this.waitForJobCompletion(jobId);
-        logger.info('Job completed successfully', { jobId, result });
-        
-        // Generate contextual response using LLM
-        logger.info('Generating contextual response');
-        const contextualResponse = await this.generateContextualResponse(
-          request.message.content,
-          decision.function_name,
-          result,
-          decision.response_message
-        );
-        logger.info('Contextual response generated', { response: contextualResponse });
-
-        return {
-          responseText: contextualResponse,
-          executedJobs,
-        };
-      } else {
-        logger.info('Scheduled job created', { 
-          jobId, 
-          executionType: jobData.executionType 
+      if (jobData.executionType === JobExecutionType.CRON) {
+        const nextRuns = getNextCronRuns(jobData.cronExpression!, {
+          timezone: jobData.timezone,
+          endDate: jobData.repeatDeadline,
+          count: 3,
         });
         return {
-          responseText: decision.response_message || 
-            `I've scheduled the ${decision.function_name} function to run ${jobData.executionType === JobExecutionType.SCHEDULE ? 'at the specified time' : 'repeatedly'}.`,
+          responseText: `${decision.response_message || `I've scheduled the ${decision.function_name} function on the cron schedule "${jobData.cronExpression}".`} Next runs: ${nextRuns.map(run => run.toISOString()).join(', ')}.`,
           executedJobs,
         };
       }
+
+      return {
+        responseText: decision.response_message || 
+          `I've scheduled the ${decision.function_name} function to run ${jobData.executionType === JobExecutionType.SCHEDULE ? 'at the specified time' : 'repeatedly'}.`,
+        executedJobs,
+      };
     } catch (error) {
       logger.error('Error executing function decision:', error);
       return {
@@ -408,76 +848,50 @@ Respond with the JSON structure as specified in your system prompt.`;
     }
   }
 
-  private async waitForJobCompletion(jobId: string, timeout: number = 30000): Promise<any> {
-    const startTime = Date.now();
-    logger.info('Starting waitForJobCompletion', { jobId, timeout });
-    
-    return new Promise((resolve, reject) => {
-      const checkInterval = setInterval(() => {
-        const job = this.jobsQueueManager.getJob(jobId);
-        
-        if (!job) {
-          logger.error('Job not found during completion check', { jobId });
-          clearInterval(checkInterval);
-          reject(new Error('Job not found'));
-          return;
-        }
-
-        logger.debug('Job status check', { 
-          jobId, 
-          status: job.status,
-          elapsedTime: Date.now() - startTime 
-        });
-
-        if (job.status === JobStatus.COMPLETED) {
-          logger.info('Job completed', { jobId, result: job.result });
-          clearInterval(checkInterval);
-          resolve(job.result);
-          return;
-        }
-
-        if (job.status === JobStatus.FAILED) {
-          logger.error('Job failed', { jobId, error: job.error });
-          clearInterval(checkInterval);
-          reject(new Error(job.error || 'Job failed'));
-          return;
-        }
-
-        if (Date.now() - startTime > timeout) {
-          logger.error('Job execution timeout', { jobId, timeout });
-          clearInterval(checkInterval);
-          reject(new Error('Job execution timeout'));
-          return;
-        }
-      }, 500); // Check every 500ms
-    });
-  }
-
   private async generateContextualResponse(
     originalMessage: string,
-    functionName: string,
-    functionResult: any,
-    suggestedResponse?: string
+    steps: IOrchestrationStep[],
+    suggestedResponse?: string,
+    stream?: IChatStream,
+    callContext?: ILLMCallContext,
+    signal?: AbortSignal
   ): Promise<string> {
     try {
+      const stepsContext = steps.map((step, index) => `
+Step ${index + 1}: ${step.functionName}
+Parameters: ${JSON.stringify(step.parameters)}
+${step.error ? `Error: ${step.error}` : `Result: ${JSON.stringify(step.result, null, 2)}`}`).join('\n');
+
       const contextPrompt = `
 Original user message: "${originalMessage}"
-Function executed: ${functionName}
-Function result: ${JSON.stringify(functionResult, null, 2)}
+Functions executed:
+${stepsContext || 'None'}
 Suggested response: ${suggestedResponse || 'None'}
 
-Generate a natural, helpful response to the user based on the function execution result. 
+Generate a natural, helpful response to the user based on the function execution results. 
 Be conversational and explain what was accomplished. Keep it concise but informative.`;
 
-      const response = await this.llmManager.generateResponse(
-        this.orchestrationMasterInstanceId,
-        contextPrompt
+      if (stream) {
+        const response = await this.streamChat([{ role: 'user', content: contextPrompt }], undefined, stream, callContext, signal);
+        return response.content;
+      }
+
+      const response = await this.llmManager.generateChat(
+        this.orchestrationRouteName,
+        [{ role: 'user', content: contextPrompt }],
+        undefined,
+        signal,
+        callContext
       );
 
       return response.content;
     } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
       logger.error('Error generating contextual response:', error);
-      return suggestedResponse || `I've completed the ${functionName} function successfully.`;
+      const functionNames = steps.map(step => step.functionName).join(', ');
+      return suggestedResponse || `I've completed the ${functionNames} function${steps.length === 1 ? '' : 's'} successfully.`;
     }
   }
 
@@ -504,7 +918,7 @@ Be conversational and explain what was accomplished. Keep it concise but informa
   private async getStatusDecision(decision: any): Promise<{ responseText: string }> {
     try {
       const stats = await this.jobsQueueManager.getQueueStats();
-      const healthStatuses = this.getAllHealthStatuses();
+      const healthStatuses = await this.getAllHealthStatuses();
       
       const statusReport = `
 System Status:
@@ -541,13 +955,21 @@ System Status:
     return this.llmManager;
   }
 
-  public getAllHealthStatuses(): IHealthStatus[] {
+  public getConversationManager(): ConversationManager {
+    return this.conversationManager;
+  }
+
+  public getOrchestrationRoute(): ILLMRoute {
+    return this.llmManager.getRoute(this.orchestrationRouteName)!;
+  }
+
+  public async getAllHealthStatuses(): Promise<IHealthStatus[]> {
     return [
       this.getHealthStatus(),
       this.functionsManager.getHealthStatus(),
       this.messagingManager.getHealthStatus(),
       this.jobsQueueManager.getHealthStatus(),
-      this.llmManager.getHealthStatus(),
+      await this.llmManager.getHealthStatus(),
     ];
   }
 
@@ -585,8 +1007,10 @@ System Status:
       }
 
       // Shutdown modules
+      await this.functionsManager.shutdown();
       await this.jobsQueueManager.shutdown();
       await this.messagingManager.disconnect();
+      await closeRedisClient();
       
       this.isInitialized = false;
       logger.info('AgentMaster shutdown completed');
@@ -595,25 +1019,46 @@ System Status:
     }
   }
 
+  // One instance per configured provider behind a route, so a provider outage or
+  // rate limit falls through to the next one instead of failing the request
   private createOrchestrationMaster(): string {
-    const orchestrationConfig: ILLMConfig = {
-      provider: this.getPreferredProvider(),
-      apiKey: this.getApiKeyForProvider(this.getPreferredProvider()),
-      model: this.getModelForProvider(this.getPreferredProvider()),
-      temperature: 0.3, // Lower temperature for more consistent decision making
-      maxTokens: 4000,
-      systemPrompt: this.getOrchestrationSystemPrompt(),
-    };
+    const instanceIds = this.getAvailableProviders().map(provider => {
+      const orchestrationConfig: ILLMConfig = {
+        provider,
+        apiKey: this.getApiKeyForProvider(provider),
+        baseURL: this.llmManager.getConfiguredBaseURL(provider) || undefined,
+        model: this.getModelForProvider(provider),
+        temperature: 0.3, // Lower temperature for more consistent decision making
+        maxTokens: 4000,
+        systemPrompt: this.getOrchestrationSystemPrompt(),
+      };
 
-    return this.llmManager.createInstance(orchestrationConfig);
+      return this.llmManager.createInstance(orchestrationConfig);
+    });
+
+    return this.llmManager.createRoute(ORCHESTRATION_ROUTE, instanceIds, config.llm.retry).name;
   }
 
-  private getPreferredProvider(): LLMProvider {
-    // Prefer Anthropic for orchestration, fallback to OpenAI, then Google
-    if (config.llm.anthropic.apiKey) return LLMProvider.ANTHROPIC;
-    if (config.llm.openai.apiKey) return LLMProvider.OPENAI;
-    if (config.llm.google.apiKey) return LLMProvider.GOOGLE;
-    throw new Error('No LLM API keys configured');
+  private getAvailableProviders(): LLMProvider[] {
+    if (config.llm.mock.enabled) {
+      return [LLMProvider.MOCK];
+    }
+
+    // Prefer Anthropic for orchestration, fallback to OpenAI, then Google, then local models
+    const providers = [LLMProvider.ANTHROPIC, LLMProvider.OPENAI, LLMProvider.GOOGLE]
+      .filter(provider => this.getApiKeyForProvider(provider));
+
+    if (config.llm.openaiCompatible.baseURL && config.llm.openaiCompatible.model) {
+      providers.push(LLMProvider.OPENAI_COMPATIBLE);
+    }
+    if (config.llm.ollama.baseURL) {
+      providers.push(LLMProvider.OLLAMA);
+    }
+
+    if (providers.length === 0) {
+      throw new Error('No LLM API keys or local model servers configured');
+    }
+    return providers;
   }
 
   private getApiKeyForProvider(provider: LLMProvider): string {
@@ -624,6 +1069,11 @@ System Status:
         return config.llm.openai.apiKey;
       case LLMProvider.GOOGLE:
         return config.llm.google.apiKey;
+      case LLMProvider.OPENAI_COMPATIBLE:
+        return config.llm.openaiCompatible.apiKey;
+      case LLMProvider.OLLAMA:
+      case LLMProvider.MOCK:
+        return '';
       default:
         throw new Error(`No API key for provider: ${provider}`);
     }
@@ -637,6 +1087,12 @@ System Status:
         return 'gpt-4';
       case LLMProvider.GOOGLE:
         return 'gemini-pro';
+      case LLMProvider.OPENAI_COMPATIBLE:
+        return config.llm.openaiCompatible.model;
+      case LLMProvider.OLLAMA:
+        return config.llm.ollama.model;
+      case LLMProvider.MOCK:
+        return 'mock';
       default:
         throw new Error(`No model defined for provider: ${provider}`);
     }
@@ -657,24 +1113,28 @@ Available function types:
 - HELPER: Utility functions for data processing
 - RUNNER: Functions that can be scheduled or repeated
 - WORKER: Functions that can use other LLM instances
+- PIPELINE: Functions that run several other functions in one call
 
 Execution types:
 - instant: Execute immediately
 - schedule: Execute at specified future time
-- repeat: Execute repeatedly (only for RUNNER functions)
-
-When responding, you must provide a JSON response with this structure:
-{
-  "action": "execute_function" | "cancel_job" | "get_status" | "direct_response",
-  "function_name": "string (if action is execute_function)",
-  "parameters": {object (if action is execute_function)},
-  "execution_type": "instant" | "schedule" | "repeat" (if action is execute_function),
-  "schedule_time": "ISO string (if execution_type is schedule)",
-  "repeat_interval": number (if execution_type is repeat),
-  "repeat_deadline": "ISO string (if execution_type is repeat)",
-  "job_id": "string (if action is cancel_job)",
-  "response_message": "string (direct response to user)"
-}
+- repeat: Execute repeatedly at a fixed interval (only for RUNNER functions)
+- cron: Execute on a calendar schedule given as a cron expression (only for RUNNER functions).
+  Use it for requests like "every weekday at 9am" (0 9 * * 1-5) or "on the 1st of every month"
+  (0 0 1 * *). Pass the user's timezone when they mention one; otherwise ${config.jobs.timezone} is used.
+
+Use the provided tools to act:
+- Call a function tool to execute that function immediately (instant)
+- Call schedule_function to run a function at a future time (schedule), repeatedly (repeat) or on a cron schedule (cron)
+- Call cancel_job to cancel an existing job
+- Call get_status to report on system status
+- Reply with plain text, without calling a tool, when no function is needed or you have the final answer
+
+Requests may need several functions chained together. The result of every function you call
+is sent back to you, and you can then call another function or reply with the final answer.
+
+Earlier turns of the same conversation are included when available. Use them to resolve
+follow-up requests such as "now do the same for Paris".
 
 Always analyze the message context and available functions before making decisions.`;
   }
@@ -683,9 +1143,11 @@ Always analyze the message context and available functions before making decisio
     this.io = io;
   }
 
-  private emitEvent(event: string, data: any): void {
+  // Events go to operators and admins, and to the sockets of the user who sent the message
+  private emitEvent(event: string, data: any, userId?: string): void {
     if (this.io) {
-      this.io.emit(event, data);
+      const rooms = userId ? [ALL_EVENTS_ROOM, getUserRoom(userId)] : ALL_EVENTS_ROOM;
+      this.io.to(rooms).emit(event, data);
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,196 @@
+import { logger } from '../utils/logger.js';
+import { config } from '../config/index.js';
+import { getRedisClient } from '../utils/redis.js';
+import {
+  IConversationStore,
+  ILLMMessage,
+} from '../types/index.js';
+import { LLMManager } from './LLMManager.js';
+
+export class InMemoryConversationStore implements IConversationStore {
+  private sessions: Map<string, { messages: ILLMMessage[]; updatedAt: number }> = new Map();
+
+  public async getHistory(sessionId: string): Promise<ILLMMessage[]> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return [];
+    }
+
+    if (Date.now() - session.updatedAt > config.conversation.ttlSeconds * 1000) {
+      this.sessions.delete(sessionId);
+      return [];
+    }
+
+    return [...session.messages];
+  }
+
+  public async append(sessionId: string, messages: ILLMMessage[]): Promise<void> {
+    const history = await this.getHistory(sessionId);
+    await this.replace(sessionId, [...history, ...messages]);
+  }
+
+  public async replace(sessionId: string, messages: ILLMMessage[]): Promise<void> {
+    this.sessions.set(sessionId, { messages: [...messages], updatedAt: Date.now() });
+  }
+
+  public async clear(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+  }
+}
+
+export class RedisConversationStore implements IConversationStore {
+  private keyPrefix = 'agent:conversation:';
+
+  private key(sessionId: string): string {
+    return `${this.keyPrefix}${sessionId}`;
+  }
+
+  public async getHistory(sessionId: string): Promise<ILLMMessage[]> {
+    const entries = await getRedisClient().lrange(this.key(sessionId), 0, -1);
+    return entries.map(entry => JSON.parse(entry) as ILLMMessage);
+  }
+
+  public async append(sessionId: string, messages: ILLMMessage[]): Promise<void> {
+    if (messages.length === 0) {
+      return;
+    }
+
+    const key = this.key(sessionId);
+    await getRedisClient()
+      .multi()
+      .rpush(key, ...messages.map(message => JSON.stringify(message)))
+      .expire(key, config.conversation.ttlSeconds)
+      .exec();
+  }
+
+  public async replace(sessionId: string, messages: ILLMMessage[]): Promise<void> {
+    const key = this.key(sessionId);
+    const transaction = getRedisClient().multi().del(key);
+    if (messages.length > 0) {
+      transaction
+        .rpush(key, ...messages.map(message => JSON.stringify(message)))
+        .expire(key, config.conversation.ttlSeconds);
+    }
+    await transaction.exec();
+  }
+
+  public async clear(sessionId: string): Promise<void> {
+    await getRedisClient().del(this.key(sessionId));
+  }
+}
+
+export function createConversationStore(): IConversationStore {
+  switch (config.conversation.store) {
+    case 'redis':
+      return new RedisConversationStore();
+    case 'memory':
+      return new InMemoryConversationStore();
+    default:
+      throw new Error(`Unsupported conversation store: ${config.conversation.store}`);
+  }
+}
+
+export class ConversationManager {
+  private store: IConversationStore;
+  private llmManager: LLMManager;
+  private summaryInstanceId: string;
+
+  constructor(llmManager: LLMManager, summaryInstanceId: string, store?: IConversationStore) {
+    this.llmManager = llmManager;
+    this.summaryInstanceId = summaryInstanceId;
+    this.store = store || createConversationStore();
+    logger.info('ConversationManager initialized', { store: config.conversation.store });
+  }
+
+  public async getHistory(sessionId: string): Promise<ILLMMessage[]> {
+    try {
+      return await this.store.getHistory(sessionId);
+    } catch (error) {
+      // A broken store should degrade to a stateless conversation, not fail the request
+      logger.error(`Error loading conversation history for session ${sessionId}:`, error);
+      return [];
+    }
+  }
+
+  public async appendTurn(sessionId: string, messages: ILLMMessage[]): Promise<void> {
+    try {
+      await this.store.append(sessionId, messages);
+
+      const history = await this.store.getHistory(sessionId);
+      if (this.estimateTokens(history) > config.conversation.maxHistoryTokens) {
+        await this.store.replace(sessionId, await this.compact(history));
+      }
+    } catch (error) {
+      logger.error(`Error saving conversation turn for session ${sessionId}:`, error);
+    }
+  }
+
+  public async clearHistory(sessionId: string): Promise<void> {
+    await this.store.clear(sessionId);
+    logger.info(`Cleared conversation history: ${sessionId}`);
+  }
+
+  // Rough heuristic (~4 characters per token), good enough for budgeting history
+  public estimateTokens(messages: ILLMMessage[]): number {
+    return messages.reduce((total, message) => {
+      const toolCallsLength = message.toolCalls ? JSON.stringify(message.toolCalls).length : 0;
+      return total + Math.ceil((message.content.length + toolCallsLength) / 4);
+    }, 0);
+  }
+
+  private async compact(history: ILLMMessage[]): Promise<ILLMMessage[]> {
+    // Keep the most recent turns within half the budget. Only cut at a user message,
+    // so tool calls are never separated from their results.
+    const keepBudget = Math.floor(config.conversation.maxHistoryTokens / 2);
+    let cutIndex = history.length;
+    for (let index = history.length - 1; index > 0; index--) {
+      if (this.estimateTokens(history.slice(index)) > keepBudget) {
+        break;
+      }
+      if (history[index].role === 'user') {
+        cutIndex = index;
+      }
+    }
+
+    // The latest turn alone is over budget; there is nothing sensible to cut
+    if (cutIndex >= history.length) {
+      return history;
+    }
+
+    const older = history.slice(0, cutIndex);
+    const recent = history.slice(cutIndex);
+
+    try {
+      const transcript = older.map(message => {
+        if (message.role === 'tool') {
+          return `Tool result (${message.name}): ${message.content}`;
+        }
+        if (message.toolCalls && message.toolCalls.length > 0) {
+          return `Assistant called: ${message.toolCalls.map(call => `${call.name}(${JSON.stringify(call.arguments)})`).join(', ')}`;
+        }
+        return `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`;
+      }).join('\n');
+
+      const summary = await this.llmManager.generateResponse(
+        this.summaryInstanceId,
+        `Summarize this conversation so it can be continued later. Keep names, places, numbers, job IDs and any results the user may refer back to. Be concise.\n\n${transcript}`
+      );
+
+      logger.info('Conversation history summarized', {
+        summarizedMessages: older.length,
+        keptMessages: recent.length,
+      });
+
+      // Prepended to the first kept turn, which is always a user message, so the history
+      // never has two user messages in a row
+      const [first, ...rest] = recent;
+      return [
+        { ...first, content: `Summary of the earlier conversation: ${summary.content}\n\n${first.content}` },
+        ...rest,
+      ];
+    } catch (error) {
+      logger.warn('Failed to summarize conversation history, trimming instead:', error);
+      return recent;
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import type { Redis } from 'ioredis';
+import { logger } from '../utils/logger.js';
+import { config } from '../config/index.js';
+import { getRedisClient } from '../utils/redis.js';
+import { IFunctionRoute, IFunctionRouteStore } from '../types/index.js';
+
+const ROUTES_KEY = 'agent:function-routes';
+// Every instance keeps a copy of the routes; changes are broadcast so the copies stay in step
+const ROUTES_CHANNEL = 'agent:function-routes:changed';
+
+export class InMemoryFunctionRouteStore implements IFunctionRouteStore {
+  private routes: Map<string, IFunctionRoute> = new Map();
+
+  public async getAll(): Promise<Record<string, IFunctionRoute>> {
+    return Object.fromEntries(this.routes);
+  }
+
+  public async set(name: string, route: IFunctionRoute): Promise<void> {
+    this.routes.set(name, route);
+  }
+
+  public async delete(name: string): Promise<boolean> {
+    return this.routes.delete(name);
+  }
+
+  // A single process has no other instances to hear from
+  public subscribe(): void {}
+
+  public async close(): Promise<void> {}
+}
+
+export class RedisFunctionRouteStore implements IFunctionRouteStore {
+  private subscriber?: Redis;
+
+  public async getAll(): Promise<Record<string, IFunctionRoute>> {
+    const entries = await getRedisClient().hgetall(ROUTES_KEY);
+    return Object.fromEntries(
+      Object.entries(entries).map(([name, route]) => [name, JSON.parse(route) as IFunctionRoute])
+    );
+  }
+
+  public async set(name: string, route: IFunctionRoute): Promise<void> {
+    await getRedisClient()
+      .multi()
+      .hset(ROUTES_KEY, name, JSON.stringify(route))
+      .publish(ROUTES_CHANNEL, JSON.stringify({ name, route }))
+      .exec();
+  }
+
+  public async delete(name: string): Promise<boolean> {
+    const client = getRedisClient();
+    const deleted = await client.hdel(ROUTES_KEY, name);
+    await client.publish(ROUTES_CHANNEL, JSON.stringify({ name, route: null }));
+    return deleted > 0;
+  }
+
+  public subscribe(listener: (name: string, route: IFunctionRoute | null) => void): void {
+    this.subscriber = getRedisClient().duplicate();
+
+    this.subscriber.subscribe(ROUTES_CHANNEL).catch(error => {
+      logger.error('Failed to subscribe to function route changes:', error);
+    });
+
+    this.subscriber.on('message', (channel: string, message: string) => {
+      if (channel === ROUTES_CHANNEL) {
+        const { name, route } = JSON.parse(message);
+        listener(name, route);
+      }
+    });
+  }
+
+  public async close(): Promise<void> {
+    await this.subscriber?.quit();
+    this.subscriber = undefined;
+  }
+}
+
+export function createFunctionRouteStore(): IFunctionRouteStore {
+  switch (config.functions.routeStore) {
+    case 'redis':
+      return new RedisFunctionRouteStore();
+    case 'memory':
+      return new InMemoryFunctionRouteStore();
+    default:
+      throw new Error(`Unsupported function route store: ${config.functions.routeStore}`);
+  }
+}
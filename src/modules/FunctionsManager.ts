@@ -1,27 +1,111 @@
 import fs from 'fs';
 import path from 'path';
-import { fileURLToPath } from 'url';
+import semver from 'semver';
+import { v4 as uuidv4 } from 'uuid';
+import { createHash } from 'crypto';
+import { fileURLToPath, pathToFileURL } from 'url';
 import { logger } from '../utils/logger.js';
+import { config } from '../config/index.js';
 import {
   ICustomFunction,
   IFunctionDefinition,
+  IFunctionReloadResult,
+  IFunctionRoute,
+  IFunctionRouteStore,
+  FunctionEvent,
   IFunctionHandler,
   FunctionType,
   IHealthStatus,
   IExecutionContext,
+  IParameterValidationResult,
+  PipelineStepRunner,
 } from '../types/index.js';
+import { FunctionValidationError, findParametersError, validateParameters } from '../utils/parameterValidator.js';
+import { ExecutionAbortedError, abortable } from '../utils/abort.js';
+import { runInSandbox } from '../utils/sandbox.js';
+import { createPipelineFunction, getPipelineCalls, parsePipeline } from '../utils/pipeline.js';
+import { createFunctionRouteStore } from './FunctionRouteStore.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+const FUNCTION_TYPES = [FunctionType.HELPER, FunctionType.RUNNER, FunctionType.WORKER, FunctionType.PIPELINE];
+const PIPELINE_EXTENSIONS = ['.json', '.yaml', '.yml'];
+const ISOLATION_MODES = ['none', 'worker', 'process'];
+// Editors often write a file in several steps; wait for them to finish before reloading
+const WATCH_DEBOUNCE_MS = 200;
+export const DEFAULT_FUNCTION_VERSION = '1.0.0';
+
+export function formatFunctionRef(name: string, version?: string): string {
+  return version ? `${name}@${version}` : name;
+}
+
+// Functions without their own timeout get FUNCTION_TIMEOUT_MS
+export function getFunctionTimeout(definition: IFunctionDefinition): number {
+  return definition.timeout || config.functions.timeoutMs;
+}
+
 export class FunctionsManager {
-  private functions: Map<string, ICustomFunction> = new Map();
+  // name -> version -> function; versions live side by side so queued jobs keep theirs
+  private functions: Map<string, Map<string, ICustomFunction>> = new Map();
+  // Copy of the shared routes, kept current by the store's change notifications
+  private routes: Map<string, IFunctionRoute> = new Map();
+  private routeStore: IFunctionRouteStore;
   private functionsDirectory: string;
+  // Function loaded from each file, so a changed or deleted file replaces the right one
+  private functionFiles: Map<string, { name: string; version: string }> = new Map();
+  // Functions each pipeline version calls, by "name@version", to keep pipelines from calling each other in a cycle
+  private pipelineCalls: Map<string, { name: string; calls: string[] }> = new Map();
+  private watchers: fs.FSWatcher[] = [];
+  private pendingReloads: Map<string, NodeJS.Timeout> = new Map();
+  private eventListener: ((event: FunctionEvent, data: any) => void) | null = null;
+  // Runs pipeline steps; JobsQueueManager replaces it to run each step as a child job
+  private pipelineStepRunner: PipelineStepRunner = call =>
+    this.executeFunction(call.functionName, call.parameters, call.context, call.functionVersion);
 
-  constructor() {
+  constructor(routeStore?: IFunctionRouteStore) {
+    this.routeStore = routeStore || createFunctionRouteStore();
     this.functionsDirectory = path.join(process.cwd(), 'src', 'functions');
     this.ensureDirectoriesExist();
     this.loadAllFunctions();
+
+    if (config.functions.hotReload) {
+      this.startWatching();
+    }
+  }
+
+  // Loads the shared routes and follows changes to them; called once before calls are resolved
+  public async initialize(): Promise<void> {
+    try {
+      this.routes = new Map(Object.entries(await this.routeStore.getAll()));
+    } catch (error) {
+      logger.error('Failed to load function routes:', error);
+    }
+
+    this.routeStore.subscribe((name, route) => {
+      if (route) {
+        this.routes.set(name, route);
+      } else {
+        this.routes.delete(name);
+      }
+    });
+  }
+
+  public async shutdown(): Promise<void> {
+    this.stopWatching();
+    await this.routeStore.close();
+  }
+
+  public setEventListener(listener: (event: FunctionEvent, data: any) => void): void {
+    this.eventListener = listener;
+  }
+
+  public setPipelineStepRunner(runner: PipelineStepRunner): void {
+    this.pipelineStepRunner = runner;
+  }
+
+  private emitEvent(event: FunctionEvent, data: any): void {
+    this.eventListener?.(event, { ...data, timestamp: new Date() });
   }
 
   private ensureDirectoriesExist(): void {
@@ -29,6 +113,7 @@ export class FunctionsManager {
       path.join(this.functionsDirectory, 'helper'),
       path.join(this.functionsDirectory, 'runner'),
       path.join(this.functionsDirectory, 'worker'),
+      path.join(this.functionsDirectory, 'pipeline'),
     ];
 
     directories.forEach(dir => {
@@ -39,76 +124,275 @@ export class FunctionsManager {
     });
   }
 
-  private async loadAllFunctions(): Promise<void> {
+  private async loadAllFunctions(): Promise<IFunctionReloadResult> {
+    const result: IFunctionReloadResult = { loaded: [], removed: [], errors: [] };
+
     try {
-      await this.loadFunctionsByType(FunctionType.HELPER);
-      await this.loadFunctionsByType(FunctionType.RUNNER);
-      await this.loadFunctionsByType(FunctionType.WORKER);
+      for (const type of FUNCTION_TYPES) {
+        await this.loadFunctionsByType(type, result);
+      }
       logger.info(`Loaded ${this.functions.size} functions total`);
     } catch (error) {
       logger.error('Error loading functions:', error);
     }
+
+    return result;
   }
 
-  private async loadFunctionsByType(type: FunctionType): Promise<void> {
+  private async loadFunctionsByType(type: FunctionType, result: IFunctionReloadResult): Promise<void> {
     const typeDir = path.join(this.functionsDirectory, type);
     
     if (!fs.existsSync(typeDir)) {
       return;
     }
 
-    const files = fs.readdirSync(typeDir).filter(file => 
-      file.endsWith('.ts') || file.endsWith('.js')
-    );
+    const files = fs.readdirSync(typeDir).filter(file => this.isFunctionFile(file, type));
 
     for (const file of files) {
+      const filePath = path.join(typeDir, file);
       try {
-        const filePath = path.join(typeDir, file);
-        // Convert to URL format for ES modules
-        const fileUrl = `file://${filePath}`;
-        const functionModule = await import(fileUrl);
-        
-        if (functionModule.default && typeof functionModule.default === 'object') {
-          const customFunction = functionModule.default as ICustomFunction;
-          
-          // Validate function structure
-          if (this.validateFunction(customFunction, type)) {
-            this.functions.set(customFunction.definition.name, customFunction);
-            logger.info(`Loaded ${type} function: ${customFunction.definition.name}`);
-          } else {
-            logger.warn(`Invalid function structure in ${file}`);
+        const name = await this.loadFunctionFile(filePath, type);
+        result.loaded.push(name);
+      } catch (error) {
+        result.errors.push({ file: filePath, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+
+  private isFunctionFile(file: string, type: FunctionType): boolean {
+    if (type === FunctionType.PIPELINE) {
+      return PIPELINE_EXTENSIONS.includes(path.extname(file));
+    }
+    return (file.endsWith('.ts') && !file.endsWith('.d.ts')) || file.endsWith('.js');
+  }
+
+  // Imports a function file and registers its default export, or parses a pipeline file.
+  // The query string busts Node's ESM cache so a changed file is really re-read; modules
+  // it imports are not. If the file fails to load or validate, the previously loaded
+  // version stays registered.
+  private async loadFunctionFile(filePath: string, type: FunctionType): Promise<string> {
+    try {
+      let customFunction: ICustomFunction;
+      let pipelineCalls: string[] | undefined;
+      if (type === FunctionType.PIPELINE) {
+        const pipeline = parsePipeline(fs.readFileSync(filePath, 'utf8'));
+        pipelineCalls = getPipelineCalls(pipeline);
+        customFunction = createPipelineFunction(pipeline, call => this.pipelineStepRunner(call));
+      } else {
+        customFunction = (await import(`${pathToFileURL(filePath).href}?v=${Date.now()}`)).default as ICustomFunction;
+      }
+
+      const problem = customFunction && typeof customFunction === 'object'
+        ? this.findFunctionError(customFunction, type)
+        : 'no function object is exported by default';
+      if (problem) {
+        throw new Error(`Invalid function in ${path.basename(filePath)}: ${problem}`);
+      }
+
+      const { name, version } = this.normalizeVersion(customFunction).definition;
+      const owner = Array.from(this.functionFiles.entries()).find(
+        ([file, loaded]) => loaded.name === name && loaded.version === version && file !== filePath
+      );
+      if (owner) {
+        throw new Error(`Function ${formatFunctionRef(name, version)} is already defined in ${path.basename(owner[0])}`);
+      }
+      if (pipelineCalls) {
+        const cycle = this.findPipelineCycle(name, version!, pipelineCalls);
+        if (cycle) {
+          throw new Error(`Pipeline ${name} would call itself: ${cycle.join(' -> ')}`);
+        }
+      }
+
+      // A renamed function replaces the old one. A new version is added next to the
+      // previous one, which stays registered for the jobs pinned to it.
+      const previous = this.functionFiles.get(filePath);
+      if (previous && previous.name !== name) {
+        this.deleteVersion(previous.name, previous.version);
+      }
+
+      this.setVersion(customFunction);
+      if (pipelineCalls) {
+        this.pipelineCalls.set(formatFunctionRef(name, version), { name, calls: pipelineCalls });
+      }
+      this.functionFiles.set(filePath, { name, version: version! });
+      logger.info(`Loaded ${type} function: ${formatFunctionRef(name, version)}`);
+      this.emitEvent('function:loaded', { name, version, type, file: filePath, reloaded: !!previous });
+      return formatFunctionRef(name, version);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error(`Error loading function from ${filePath}:`, error);
+      this.emitEvent('function:error', { name: this.functionFiles.get(filePath)?.name, type, file: filePath, error: message });
+      throw error;
+    }
+  }
+
+  private unloadFunctionFile(filePath: string): string | undefined {
+    const loaded = this.functionFiles.get(filePath);
+    if (!loaded) {
+      return undefined;
+    }
+
+    this.deleteVersion(loaded.name, loaded.version);
+    this.functionFiles.delete(filePath);
+    const ref = formatFunctionRef(loaded.name, loaded.version);
+    logger.info(`Unloaded function ${ref}: ${filePath} was removed`);
+    return ref;
+  }
+
+  // Definitions without a version are 1.0.0; "v1.2.0" is stored as "1.2.0"
+  private normalizeVersion(func: ICustomFunction): ICustomFunction {
+    func.definition.version = semver.valid(func.definition.version || DEFAULT_FUNCTION_VERSION)!;
+    return func;
+  }
+
+  private setVersion(func: ICustomFunction): void {
+    const { name, version } = func.definition;
+    if (!this.functions.has(name)) {
+      this.functions.set(name, new Map());
+    }
+    this.functions.get(name)!.set(version!, func);
+  }
+
+  private deleteVersion(name: string, version: string): boolean {
+    this.pipelineCalls.delete(formatFunctionRef(name, version));
+    const versions = this.functions.get(name);
+    const deleted = !!versions?.delete(version);
+    if (versions?.size === 0) {
+      this.functions.delete(name);
+    }
+    return deleted;
+  }
+
+  // Returns the chain of calls that leads from the pipeline back to itself, if any. Calls
+  // are followed by name, since a step may get any version of the function it calls.
+  private findPipelineCycle(name: string, version: string, calls: string[]): string[] | null {
+    const ref = formatFunctionRef(name, version);
+    const callsOf = (caller: string): string[] => [
+      ...(caller === name ? calls : []),
+      ...Array.from(this.pipelineCalls.entries())
+        .filter(([key, entry]) => entry.name === caller && key !== ref)
+        .flatMap(([, entry]) => entry.calls),
+    ];
+
+    const visited = new Set<string>();
+    const visit = (caller: string, chain: string[]): string[] | null => {
+      for (const callee of callsOf(caller)) {
+        if (callee === name) {
+          return [...chain, callee];
+        }
+        if (!visited.has(callee)) {
+          visited.add(callee);
+          const cycle = visit(callee, [...chain, callee]);
+          if (cycle) {
+            return cycle;
           }
         }
+      }
+      return null;
+    };
+
+    return visit(name, [name]);
+  }
+
+  // The highest version in the range, or the latest release when there is no range.
+  // Prereleases are only picked when pinned or used as a canary, or when nothing else exists.
+  private selectVersion(versions: Map<string, ICustomFunction>, range?: string): ICustomFunction | undefined {
+    const available = Array.from(versions.keys());
+    const selected = range
+      ? semver.maxSatisfying(available, range)
+      : semver.maxSatisfying(available, '*') || available.sort(semver.rcompare)[0];
+    return selected ? versions.get(selected) : undefined;
+  }
+
+  // Calls with the same routing key (user or session) always land on the same side
+  private isCanaryCall(name: string, percentage: number, routingKey?: string): boolean {
+    const bucket = routingKey
+      ? createHash('sha256').update(`${name}:${routingKey}`).digest().readUInt32BE(0) % 100
+      : Math.random() * 100;
+    return bucket < percentage;
+  }
+
+  private startWatching(): void {
+    for (const type of FUNCTION_TYPES) {
+      const typeDir = path.join(this.functionsDirectory, type);
+      try {
+        const watcher = fs.watch(typeDir, (eventType, file) => {
+          if (file && this.isFunctionFile(file, type)) {
+            this.scheduleReload(path.join(typeDir, file), type);
+          }
+        });
+        watcher.on('error', error => logger.error(`Error watching ${typeDir}:`, error));
+        this.watchers.push(watcher);
       } catch (error) {
-        logger.error(`Error loading function from ${file}:`, error);
+        logger.error(`Failed to watch ${typeDir} for changes:`, error);
       }
     }
+
+    logger.info('Watching function directories for changes');
   }
 
-  private validateFunction(func: ICustomFunction, expectedType: FunctionType): boolean {
-    if (!func.definition || !func.handler) {
-      return false;
-    }
+  public stopWatching(): void {
+    this.watchers.forEach(watcher => watcher.close());
+    this.watchers = [];
+    this.pendingReloads.forEach(timer => clearTimeout(timer));
+    this.pendingReloads.clear();
+  }
 
+  private scheduleReload(filePath: string, type: FunctionType): void {
+    clearTimeout(this.pendingReloads.get(filePath));
+    this.pendingReloads.set(filePath, setTimeout(() => {
+      this.pendingReloads.delete(filePath);
+
+      if (!fs.existsSync(filePath)) {
+        this.unloadFunctionFile(filePath);
+        return;
+      }
+
+      // Errors are logged and emitted as function:error by loadFunctionFile
+      this.loadFunctionFile(filePath, type).catch(() => undefined);
+    }, WATCH_DEBOUNCE_MS));
+  }
+
+  // Describes what keeps a function from being registered, so the load error says more
+  // than that the file is invalid
+  private findFunctionError(func: ICustomFunction, expectedType: FunctionType): string | undefined {
     const { definition } = func;
-    return (
-      typeof definition.name === 'string' &&
-      typeof definition.description === 'string' &&
-      definition.type === expectedType &&
-      Array.isArray(definition.parameters) &&
-      typeof func.handler === 'function'
-    );
+    if (!definition || typeof func.handler !== 'function') {
+      return 'a definition and a handler function are required';
+    }
+    if (typeof definition.name !== 'string' || typeof definition.description !== 'string') {
+      return 'definition.name and definition.description must be strings';
+    }
+    if (definition.type !== expectedType) {
+      return `definition.type is ${definition.type}, expected ${expectedType}`;
+    }
+    if (definition.version !== undefined && semver.valid(definition.version) === null) {
+      return `version ${definition.version} is not a semver version`;
+    }
+    if (definition.isolation !== undefined && !ISOLATION_MODES.includes(definition.isolation.mode)) {
+      return `isolation mode ${definition.isolation.mode} is not one of ${ISOLATION_MODES.join(', ')}`;
+    }
+    if (!Array.isArray(definition.parameters)) {
+      return 'definition.parameters must be an array';
+    }
+    return findParametersError(definition.parameters);
   }
 
   public addFunction(func: ICustomFunction): boolean {
     try {
-      if (!this.validateFunction(func, func.definition.type)) {
-        logger.error(`Invalid function structure for ${func.definition.name}`);
+      const problem = this.findFunctionError(func, func.definition?.type);
+      if (problem) {
+        logger.error(`Invalid function ${func.definition?.name}: ${problem}`);
+        return false;
+      }
+      // The sandbox imports the handler from its file, which a function added in code lacks
+      if (this.isIsolated(func)) {
+        logger.error(`Function ${func.definition.name} runs isolated and has to be loaded from a file`);
         return false;
       }
 
-      this.functions.set(func.definition.name, func);
-      logger.info(`Added function: ${func.definition.name}`);
+      this.setVersion(this.normalizeVersion(func));
+      logger.info(`Added function: ${formatFunctionRef(func.definition.name, func.definition.version)}`);
       return true;
     } catch (error) {
       logger.error('Error adding function:', error);
@@ -116,11 +400,17 @@ export class FunctionsManager {
     }
   }
 
-  public removeFunction(name: string): boolean {
+  // Removes one version, or the function with all its versions and its route
+  public removeFunction(name: string, version?: string): boolean {
     try {
-      const deleted = this.functions.delete(name);
+      const deleted = version ? this.deleteVersion(name, version) : this.functions.delete(name);
+      if (!this.functions.has(name) && this.routes.delete(name)) {
+        this.routeStore.delete(name).catch(error => {
+          logger.error(`Failed to delete the route of function ${name}:`, error);
+        });
+      }
       if (deleted) {
-        logger.info(`Removed function: ${name}`);
+        logger.info(`Removed function: ${formatFunctionRef(name, version)}`);
       }
       return deleted;
     } catch (error) {
@@ -129,22 +419,91 @@ export class FunctionsManager {
     }
   }
 
-  public getFunction(name: string): ICustomFunction | undefined {
-    return this.functions.get(name);
+  // An exact version, or else the one the function's route selects (ignoring canaries)
+  public getFunction(name: string, version?: string): ICustomFunction | undefined {
+    const versions = this.functions.get(name);
+    if (!versions) {
+      return undefined;
+    }
+
+    if (version) {
+      return versions.get(semver.valid(version) || version);
+    }
+
+    const range = this.routes.get(name)?.version;
+    const func = this.selectVersion(versions, range);
+    if (!func) {
+      logger.warn(`No version of function ${name} matches its route ${range}`);
+    }
+    return func;
+  }
+
+  // Picks the version for a new call, sending the route's canary share to the canary version
+  public resolveFunction(name: string, routingKey?: string): ICustomFunction | undefined {
+    const canary = this.routes.get(name)?.canary;
+    if (canary && this.isCanaryCall(name, canary.percentage, routingKey)) {
+      const func = this.selectVersion(this.functions.get(name) || new Map(), canary.version);
+      if (func) {
+        return func;
+      }
+      logger.warn(`No version of function ${name} matches its canary ${canary.version}; using the stable version`);
+    }
+
+    return this.getFunction(name);
+  }
+
+  // Newest first
+  public getFunctionVersions(name: string): ICustomFunction[] {
+    return Array.from(this.functions.get(name)?.values() || []).sort(
+      (a, b) => semver.rcompare(a.definition.version!, b.definition.version!)
+    );
+  }
+
+  public getFunctionRoute(name: string): IFunctionRoute {
+    return this.routes.get(name) || {};
+  }
+
+  public async setFunctionRoute(name: string, route: IFunctionRoute): Promise<IFunctionRoute> {
+    const versions = this.functions.get(name);
+    if (!versions) {
+      throw new Error(`Function ${name} not found`);
+    }
+
+    for (const range of [route.version, route.canary?.version]) {
+      if (range !== undefined && (!semver.validRange(range) || !this.selectVersion(versions, range))) {
+        throw new Error(`No version of function ${name} matches ${range}`);
+      }
+    }
+    if (route.canary && !(route.canary.percentage >= 0 && route.canary.percentage <= 100)) {
+      throw new Error('canary.percentage must be between 0 and 100');
+    }
+
+    await this.routeStore.set(name, route);
+    this.routes.set(name, route);
+    logger.info(`Updated route for function ${name}`, { route });
+    return route;
+  }
+
+  public async deleteFunctionRoute(name: string): Promise<boolean> {
+    const deleted = await this.routeStore.delete(name);
+    return this.routes.delete(name) || deleted;
   }
 
+  // One entry per function: the version its route selects
   public getAllFunctions(): ICustomFunction[] {
-    return Array.from(this.functions.values());
+    return Array.from(this.functions.keys())
+      .map(name => this.getFunction(name))
+      .filter((func): func is ICustomFunction => !!func);
   }
 
   public getFunctionsByType(type: FunctionType): ICustomFunction[] {
-    return Array.from(this.functions.values()).filter(
+    return this.getAllFunctions().filter(
       func => func.definition.type === type
     );
   }
 
   public getFunctionDefinitions(): IFunctionDefinition[] {
-    return Array.from(this.functions.values()).map(func => func.definition);
+    return this.getAllFunctions().map(func => func.definition);
   }
 
   public exportFunctionDefinitionsAsJson(): string {
@@ -155,64 +514,115 @@ export class FunctionsManager {
   public async executeFunction(
     name: string,
     parameters: Record<string, any>,
-    context?: IExecutionContext
+    context?: IExecutionContext,
+    version?: string
   ): Promise<any> {
-    const func = this.functions.get(name);
+    const func = this.getFunction(name, version);
     
     if (!func) {
-      throw new Error(`Function ${name} not found`);
+      throw new Error(`Function ${formatFunctionRef(name, version)} not found`);
+    }
+
+    // Handlers always receive validated, coerced parameters with defaults applied
+    const validation = this.validateFunctionCall(name, parameters, func.definition.version);
+    if (!validation.valid) {
+      throw new FunctionValidationError(name, validation.errors);
     }
 
+    // The handler's signal fires on timeout as well as on the caller's cancel or shutdown
+    const timeout = getFunctionTimeout(func.definition);
+    const timeoutController = new AbortController();
+    const timer = setTimeout(() => timeoutController.abort(new ExecutionAbortedError('timeout')), timeout);
+    const signal = context?.signal
+      ? AbortSignal.any([context.signal, timeoutController.signal])
+      : timeoutController.signal;
+    // Calls made outside a job get a context of their own, so their handler sees the signal too
+    const executionContext: IExecutionContext = { ...(context || { jobId: uuidv4(), logger }), signal };
+
     try {
-      logger.info(`Executing function: ${name}`, { parameters });
-      
-      const timeout = func.definition.timeout || 30000;
-      const result = await Promise.race([
-        func.handler(parameters, context),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error('Function execution timeout')), timeout)
-        )
-      ]);
+      logger.info(`Executing function: ${name}`, { version: func.definition.version, parameters: validation.parameters });
+
+      const result = await abortable(
+        this.isIsolated(func)
+          ? this.runIsolated(func, validation.parameters, executionContext, signal)
+          : func.handler(validation.parameters, executionContext),
+        signal
+      );
 
       logger.info(`Function ${name} executed successfully`);
       return result;
     } catch (error) {
       logger.error(`Error executing function ${name}:`, error);
       throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private isIsolated(func: ICustomFunction): boolean {
+    const mode = func.definition.isolation?.mode;
+    return mode === 'worker' || mode === 'process';
+  }
+
+  // Aborting the signal on timeout or cancellation kills the sandbox
+  private runIsolated(
+    func: ICustomFunction,
+    parameters: Record<string, any>,
+    context: IExecutionContext | undefined,
+    signal: AbortSignal
+  ): Promise<any> {
+    const { name, version, isolation } = func.definition;
+    const filePath = this.getFunctionFile(name, version!);
+    if (!filePath) {
+      return Promise.reject(new Error(`Function ${formatFunctionRef(name, version)} has no source file to run isolated`));
     }
+
+    return runInSandbox({ filePath, name, version: version!, parameters, isolation: isolation!, context, signal });
+  }
+
+  private getFunctionFile(name: string, version: string): string | undefined {
+    const entry = Array.from(this.functionFiles.entries()).find(
+      ([, loaded]) => loaded.name === name && loaded.version === version
+    );
+    return entry?.[0];
   }
 
-  public validateFunctionCall(name: string, parameters: Record<string, any>): boolean {
-    const func = this.functions.get(name);
+  public validateFunctionCall(
+    name: string,
+    parameters: Record<string, any>,
+    version?: string
+  ): IParameterValidationResult {
+    const func = this.getFunction(name, version);
     
     if (!func) {
-      return false;
+      return {
+        valid: false,
+        errors: [{ field: 'function', message: `Function ${formatFunctionRef(name, version)} not found` }],
+        parameters,
+      };
     }
 
-    const { definition } = func;
-    
-    // Check required parameters
-    for (const param of definition.parameters) {
-      if (param.required && !(param.name in parameters)) {
-        logger.warn(`Missing required parameter: ${param.name} for function ${name}`);
-        return false;
-      }
+    const result = validateParameters(func.definition.parameters, parameters);
+    if (!result.valid) {
+      logger.warn(`Invalid parameters for function ${name}`, { errors: result.errors });
     }
 
-    return true;
+    return result;
   }
 
   public getHealthStatus(): IHealthStatus {
     try {
       const functionCount = this.functions.size;
+      const versionCount = Array.from(this.functions.values()).reduce((total, versions) => total + versions.size, 0);
       const helperCount = this.getFunctionsByType(FunctionType.HELPER).length;
       const runnerCount = this.getFunctionsByType(FunctionType.RUNNER).length;
       const workerCount = this.getFunctionsByType(FunctionType.WORKER).length;
+      const pipelineCount = this.getFunctionsByType(FunctionType.PIPELINE).length;
 
       return {
         module: 'FunctionsManager',
         status: 'healthy',
-        details: `Total: ${functionCount}, Helper: ${helperCount}, Runner: ${runnerCount}, Worker: ${workerCount}`,
+        details: `Total: ${functionCount} (${versionCount} versions), Helper: ${helperCount}, Runner: ${runnerCount}, Worker: ${workerCount}, Pipeline: ${pipelineCount}`,
         timestamp: new Date(),
       };
     } catch (error) {
@@ -225,8 +635,42 @@ export class FunctionsManager {
     }
   }
 
-  public reloadFunctions(): Promise<void> {
-    this.functions.clear();
-    return this.loadAllFunctions();
+  // Re-imports every function file. Functions added with addFunction are kept, and so
+  // are the previous versions of files that fail to load.
+  public async reloadFunctions(): Promise<IFunctionReloadResult> {
+    const result = await this.loadAllFunctions();
+
+    for (const filePath of Array.from(this.functionFiles.keys())) {
+      if (!fs.existsSync(filePath)) {
+        result.removed.push(this.unloadFunctionFile(filePath)!);
+      }
+    }
+
+    return result;
+  }
+
+  // Re-imports the files a function's versions were loaded from
+  public async reloadFunction(name: string): Promise<IFunctionReloadResult> {
+    const files = Array.from(this.functionFiles.entries()).filter(([, loaded]) => loaded.name === name);
+    if (files.length === 0) {
+      throw new Error(`Function ${name} was not loaded from a file`);
+    }
+
+    const result: IFunctionReloadResult = { loaded: [], removed: [], errors: [] };
+    for (const [filePath, loaded] of files) {
+      if (!fs.existsSync(filePath)) {
+        result.removed.push(this.unloadFunctionFile(filePath)!);
+        continue;
+      }
+
+      try {
+        const type = this.getFunction(name, loaded.version)!.definition.type;
+        result.loaded.push(await this.loadFunctionFile(filePath, type));
+      } catch (error) {
+        result.errors.push({ file: filePath, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return result;
   }
 }
\ No newline at end of file
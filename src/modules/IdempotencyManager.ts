@@ -0,0 +1,234 @@
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger.js';
+import { config } from '../config/index.js';
+import { getRedisClient } from '../utils/redis.js';
+import {
+  IIdempotencyRecord,
+  IIdempotencyStore,
+  IIncomingMessage,
+  IOutgoingMessage,
+} from '../types/index.js';
+
+// Replaces the record only while the caller still owns the claim; a claim that expired
+// and was taken over by another process is left alone
+const UPDATE_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if not current or cjson.decode(current).ownerId ~= ARGV[1] then return 0 end
+redis.call('SET', KEYS[1], ARGV[2], 'EX', ARGV[3])
+return 1
+`;
+
+const RELEASE_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if current and cjson.decode(current).ownerId == ARGV[1] then redis.call('DEL', KEYS[1]) end
+return 1
+`;
+
+function deserialize(value: string): IIdempotencyRecord {
+  const record = JSON.parse(value);
+  return {
+    ...record,
+    updatedAt: new Date(record.updatedAt),
+    response: record.response && { ...record.response, timestamp: new Date(record.response.timestamp) },
+  };
+}
+
+// Thrown when a process is still working on the message, so RabbitMQ delivers it
+// again later, once that process has either completed it or lost its claim
+export class MessageInProgressError extends Error {
+  constructor(messageId: string) {
+    super(`Message ${messageId} is already being processed`);
+    this.name = 'MessageInProgressError';
+  }
+}
+
+export class InMemoryIdempotencyStore implements IIdempotencyStore {
+  private records: Map<string, { record: IIdempotencyRecord; expiresAt: number }> = new Map();
+
+  private get(key: string): IIdempotencyRecord | undefined {
+    const entry = this.records.get(key);
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.records.delete(key);
+      return undefined;
+    }
+    return entry?.record;
+  }
+
+  public async claim(key: string, record: IIdempotencyRecord, ttlSeconds: number): Promise<IIdempotencyRecord | null> {
+    const existing = this.get(key);
+    if (existing) {
+      return existing;
+    }
+
+    this.records.set(key, { record, expiresAt: Date.now() + ttlSeconds * 1000 });
+    return null;
+  }
+
+  public async update(key: string, record: IIdempotencyRecord, ttlSeconds: number): Promise<boolean> {
+    if (this.get(key)?.ownerId !== record.ownerId) {
+      return false;
+    }
+
+    this.records.set(key, { record, expiresAt: Date.now() + ttlSeconds * 1000 });
+    return true;
+  }
+
+  public async release(key: string, ownerId: string): Promise<void> {
+    if (this.get(key)?.ownerId === ownerId) {
+      this.records.delete(key);
+    }
+  }
+}
+
+export class RedisIdempotencyStore implements IIdempotencyStore {
+  private keyPrefix = 'agent:idempotency:';
+
+  private key(key: string): string {
+    return `${this.keyPrefix}${key}`;
+  }
+
+  public async claim(key: string, record: IIdempotencyRecord, ttlSeconds: number): Promise<IIdempotencyRecord | null> {
+    const client = getRedisClient();
+    const claimed = await client.set(this.key(key), JSON.stringify(record), 'EX', ttlSeconds, 'NX');
+    if (claimed) {
+      return null;
+    }
+
+    const existing = await client.get(this.key(key));
+    // The previous claim may have expired in between, in which case try again
+    return existing ? deserialize(existing) : this.claim(key, record, ttlSeconds);
+  }
+
+  public async update(key: string, record: IIdempotencyRecord, ttlSeconds: number): Promise<boolean> {
+    const updated = await getRedisClient().eval(
+      UPDATE_SCRIPT, 1, this.key(key), record.ownerId, JSON.stringify(record), ttlSeconds
+    );
+    return updated === 1;
+  }
+
+  public async release(key: string, ownerId: string): Promise<void> {
+    await getRedisClient().eval(RELEASE_SCRIPT, 1, this.key(key), ownerId);
+  }
+}
+
+export function createIdempotencyStore(): IIdempotencyStore {
+  switch (config.idempotency.store) {
+    case 'redis':
+      return new RedisIdempotencyStore();
+    case 'memory':
+      return new InMemoryIdempotencyStore();
+    default:
+      throw new Error(`Unsupported idempotency store: ${config.idempotency.store}`);
+  }
+}
+
+// Makes processing of queued messages idempotent across redeliveries and instances.
+// A message is claimed before it is processed; the claim is kept alive while it runs
+// and replaced by the reply once it completes, so a redelivered copy gets that reply
+// re-sent instead of running the orchestration (and its functions) again.
+export class IdempotencyManager {
+  private store: IIdempotencyStore;
+  // Identifies this process as the owner of its claims
+  private ownerId = uuidv4();
+  private heartbeats: Map<string, NodeJS.Timeout> = new Map();
+
+  constructor(store?: IIdempotencyStore) {
+    this.store = store || createIdempotencyStore();
+    logger.info('IdempotencyManager initialized', {
+      enabled: config.idempotency.enabled,
+      store: config.idempotency.store,
+    });
+  }
+
+  public isEnabled(): boolean {
+    return config.idempotency.enabled;
+  }
+
+  // A client-supplied idempotencyKey wins over the message id, so a client can retry with
+  // a new message; it is scoped to the tenant to keep tenants' keys apart
+  public getKey(message: IIncomingMessage): string {
+    const idempotencyKey = message.metadata?.idempotencyKey;
+    if (typeof idempotencyKey === 'string' && idempotencyKey) {
+      return `key:${message.metadata?.tenantId || ''}:${idempotencyKey}`;
+    }
+    return `message:${message.id}`;
+  }
+
+  // Returns null once this process holds the claim, or the record of the earlier
+  // delivery otherwise. If the store is unavailable the message is processed anyway.
+  public async claim(message: IIncomingMessage): Promise<IIdempotencyRecord | null> {
+    if (!this.isEnabled()) {
+      return null;
+    }
+
+    const key = this.getKey(message);
+    const record = this.createRecord(message, 'processing');
+
+    try {
+      const existing = await this.store.claim(key, record, config.idempotency.lockSeconds);
+      if (existing) {
+        return existing;
+      }
+    } catch (error) {
+      logger.error(`Error claiming message ${message.id}; processing it without deduplication:`, error);
+      return null;
+    }
+
+    const heartbeat = setInterval(() => {
+      this.store.update(key, { ...record, updatedAt: new Date() }, config.idempotency.lockSeconds)
+        .then(held => {
+          if (!held) {
+            logger.warn(`Lost the idempotency claim for message ${message.id}`);
+          }
+        })
+        .catch(error => logger.error(`Error refreshing the claim for message ${message.id}:`, error));
+    }, (config.idempotency.lockSeconds * 1000) / 3);
+    heartbeat.unref();
+    this.heartbeats.set(key, heartbeat);
+
+    return null;
+  }
+
+  public async complete(message: IIncomingMessage, response: IOutgoingMessage): Promise<void> {
+    if (!this.isEnabled()) {
+      return;
+    }
+
+    const key = this.getKey(message);
+    this.stopHeartbeat(key);
+
+    try {
+      const record = { ...this.createRecord(message, 'completed'), response };
+      if (!(await this.store.update(key, record, config.idempotency.ttlSeconds))) {
+        logger.warn(`Message ${message.id} completed after its idempotency claim was lost`);
+      }
+    } catch (error) {
+      logger.error(`Error storing the reply to message ${message.id}:`, error);
+    }
+  }
+
+  // Gives up the claim without storing a reply, so a later delivery is processed again
+  public async release(message: IIncomingMessage): Promise<void> {
+    if (!this.isEnabled()) {
+      return;
+    }
+
+    const key = this.getKey(message);
+    this.stopHeartbeat(key);
+
+    try {
+      await this.store.release(key, this.ownerId);
+    } catch (error) {
+      logger.error(`Error releasing the claim for message ${message.id}:`, error);
+    }
+  }
+
+  private createRecord(message: IIncomingMessage, status: IIdempotencyRecord['status']): IIdempotencyRecord {
+    return { status, messageId: message.id, ownerId: this.ownerId, updatedAt: new Date() };
+  }
+
+  private stopHeartbeat(key: string): void {
+    clearInterval(this.heartbeats.get(key));
+    this.heartbeats.delete(key);
+  }
+}
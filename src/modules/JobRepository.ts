@@ -0,0 +1,186 @@
+import { logger } from '../utils/logger.js';
+import { config } from '../config/index.js';
+import { getRedisClient } from '../utils/redis.js';
+import {
+  IJob,
+  IJobRepository,
+  JobStatus,
+} from '../types/index.js';
+
+const TERMINAL_STATUSES = [JobStatus.COMPLETED, JobStatus.FAILED, JobStatus.CANCELLED];
+
+export class InMemoryJobRepository implements IJobRepository {
+  private jobs: Map<string, IJob> = new Map();
+
+  public async save(job: IJob): Promise<void> {
+    this.jobs.set(job.id, { ...job });
+  }
+
+  public async get(jobId: string): Promise<IJob | undefined> {
+    const job = this.jobs.get(jobId);
+    return job ? { ...job } : undefined;
+  }
+
+  public async getAll(): Promise<IJob[]> {
+    return Array.from(this.jobs.values()).map(job => ({ ...job }));
+  }
+
+  public async update(jobId: string, changes: Partial<IJob>, fromStatuses?: JobStatus[]): Promise<IJob | undefined> {
+    const job = this.jobs.get(jobId);
+    if (!job || (fromStatuses && !fromStatuses.includes(job.status))) {
+      return undefined;
+    }
+
+    const updated = { ...job, ...changes };
+    this.jobs.set(jobId, updated);
+    return { ...updated };
+  }
+
+  public async delete(jobId: string): Promise<boolean> {
+    return this.jobs.delete(jobId);
+  }
+}
+
+// Checks the current status and writes the fields in one step, so instances sharing
+// the store cannot move a job backwards (e.g. a late "active" event after "completed")
+const UPDATE_SCRIPT = `
+local status = redis.call('HGET', KEYS[1], 'status')
+if not status then return 0 end
+if ARGV[1] ~= '' then
+  local allowed = false
+  for _, candidate in ipairs(cjson.decode(ARGV[1])) do
+    if candidate == status then allowed = true end
+  end
+  if not allowed then return 0 end
+end
+for i = 2, #ARGV, 2 do
+  redis.call('HSET', KEYS[1], ARGV[i], ARGV[i + 1])
+end
+return 1
+`;
+
+export class RedisJobRepository implements IJobRepository {
+  private keyPrefix = 'agent:jobs:';
+  private indexKey = 'agent:jobs:index';
+
+  private key(jobId: string): string {
+    return `${this.keyPrefix}${jobId}`;
+  }
+
+  private serialize(changes: Partial<IJob>): Record<string, string> {
+    const fields: Record<string, string> = {};
+    if (changes.id !== undefined) fields.id = changes.id;
+    if (changes.data !== undefined) fields.data = JSON.stringify(changes.data);
+    if (changes.status !== undefined) fields.status = changes.status;
+    if (changes.createdAt !== undefined) fields.createdAt = new Date(changes.createdAt).toISOString();
+    if (changes.startedAt !== undefined) fields.startedAt = new Date(changes.startedAt).toISOString();
+    if (changes.completedAt !== undefined) fields.completedAt = new Date(changes.completedAt).toISOString();
+    if (changes.result !== undefined) fields.result = JSON.stringify(changes.result);
+    if (changes.error !== undefined) fields.error = changes.error;
+    return fields;
+  }
+
+  private deserialize(fields: Record<string, string>): IJob {
+    const data = JSON.parse(fields.data);
+    if (data.scheduleTime) data.scheduleTime = new Date(data.scheduleTime);
+    if (data.repeatDeadline) data.repeatDeadline = new Date(data.repeatDeadline);
+
+    return {
+      id: fields.id,
+      data,
+      status: fields.status as JobStatus,
+      createdAt: new Date(fields.createdAt),
+      startedAt: fields.startedAt ? new Date(fields.startedAt) : undefined,
+      completedAt: fields.completedAt ? new Date(fields.completedAt) : undefined,
+      result: fields.result !== undefined ? JSON.parse(fields.result) : undefined,
+      error: fields.error,
+    };
+  }
+
+  public async save(job: IJob): Promise<void> {
+    const key = this.key(job.id);
+    const transaction = getRedisClient()
+      .multi()
+      .del(key)
+      .hset(key, this.serialize(job))
+      .zadd(this.indexKey, new Date(job.createdAt).getTime(), job.id);
+    if (TERMINAL_STATUSES.includes(job.status)) {
+      transaction.expire(key, config.jobs.retentionSeconds);
+    }
+    await transaction.exec();
+  }
+
+  public async get(jobId: string): Promise<IJob | undefined> {
+    const fields = await getRedisClient().hgetall(this.key(jobId));
+    return fields && fields.id ? this.deserialize(fields) : undefined;
+  }
+
+  public async getAll(): Promise<IJob[]> {
+    const client = getRedisClient();
+    const jobIds = await client.zrange(this.indexKey, 0, -1);
+    if (jobIds.length === 0) {
+      return [];
+    }
+
+    const pipeline = client.pipeline();
+    jobIds.forEach(jobId => pipeline.hgetall(this.key(jobId)));
+    const results = (await pipeline.exec()) || [];
+
+    const jobs: IJob[] = [];
+    const expiredIds: string[] = [];
+    results.forEach(([error, fields], index) => {
+      const record = fields as Record<string, string>;
+      if (!error && record && record.id) {
+        jobs.push(this.deserialize(record));
+      } else if (!error) {
+        expiredIds.push(jobIds[index]);
+      }
+    });
+
+    // Finished jobs expire on their own; drop them from the index as we notice
+    if (expiredIds.length > 0) {
+      await client.zrem(this.indexKey, ...expiredIds);
+    }
+
+    return jobs;
+  }
+
+  public async update(jobId: string, changes: Partial<IJob>, fromStatuses?: JobStatus[]): Promise<IJob | undefined> {
+    const key = this.key(jobId);
+    const fields = this.serialize(changes);
+    const args = [fromStatuses ? JSON.stringify(fromStatuses) : '', ...Object.entries(fields).flat()];
+
+    const applied = await getRedisClient().eval(UPDATE_SCRIPT, 1, key, ...args);
+    if (!applied) {
+      return undefined;
+    }
+
+    if (changes.status && TERMINAL_STATUSES.includes(changes.status)) {
+      await getRedisClient().expire(key, config.jobs.retentionSeconds);
+    }
+
+    return this.get(jobId);
+  }
+
+  public async delete(jobId: string): Promise<boolean> {
+    const [[, deleted]] = (await getRedisClient()
+      .multi()
+      .del(this.key(jobId))
+      .zrem(this.indexKey, jobId)
+      .exec()) as [Error | null, number][];
+    return deleted > 0;
+  }
+}
+
+export function createJobRepository(): IJobRepository {
+  logger.info('Creating job repository', { store: config.jobs.store });
+
+  switch (config.jobs.store) {
+    case 'redis':
+      return new RedisJobRepository();
+    case 'memory':
+      return new InMemoryJobRepository();
+    default:
+      throw new Error(`Unsupported job store: ${config.jobs.store}`);
+  }
+}
@@ -1,31 +1,77 @@
-import { Queue, Worker, Job, QueueEvents, JobsOptions, RepeatOptions } from 'bullmq';
+import { Queue, Worker, Job, JobType, QueueEvents, JobsOptions, RepeatOptions, UnrecoverableError } from 'bullmq';
 import type { RedisOptions } from 'ioredis';
-import cron from 'node-cron';
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from '../utils/logger';
 import { config } from '../config';
 import {
   IJob,
   IJobData,
+  FunctionType,
   JobExecutionType,
   JobStatus,
   IHealthStatus,
   IExecutionContext,
+  IJobRepository,
+  IAwaitJobOptions,
+  IPipelineStepCall,
 } from '../types';
-import { FunctionsManager } from './FunctionsManager';
+import { FunctionsManager, formatFunctionRef, getFunctionTimeout } from './FunctionsManager';
+import { createJobRepository } from './JobRepository';
+import { FunctionValidationError } from '../utils/parameterValidator';
+import { getNextCronRuns, validateCronExpression } from '../utils/cron';
+import { toAbortError } from '../utils/abort';
+import { getRedisClient } from '../utils/redis';
+import { getQuotaManager } from './QuotaManager';
+import type { Redis } from 'ioredis';
+
+// Statuses a job may be in before moving to each status. Events from several
+// instances can arrive out of order, so anything else is ignored as stale.
+const JOB_STATUS_TRANSITIONS: Record<JobStatus, JobStatus[]> = {
+  [JobStatus.PENDING]: [JobStatus.PENDING, JobStatus.FAILED],
+  [JobStatus.RUNNING]: [JobStatus.PENDING, JobStatus.RUNNING, JobStatus.FAILED],
+  [JobStatus.COMPLETED]: [JobStatus.PENDING, JobStatus.RUNNING, JobStatus.FAILED],
+  [JobStatus.FAILED]: [JobStatus.PENDING, JobStatus.RUNNING],
+  [JobStatus.CANCELLED]: [JobStatus.PENDING, JobStatus.RUNNING],
+};
+
+// Extra time allowed on top of the attempts of a job while waiting on it, so time
+// spent in the queue does not count against the execution budget
+const JOB_WAIT_GRACE_MS = 5000;
+
+// Running jobs can only be aborted by the worker that holds them, so cancel
+// requests are broadcast to every instance over this channel
+const JOB_CANCEL_CHANNEL = 'agent:jobs:cancel';
+
+const JOB_QUEUE = 'agent-jobs';
+// Pipeline steps have a queue and worker of their own. A pipeline's job keeps its worker
+// slot while it waits for its steps, so steps queued behind the pipelines waiting on
+// them would never start once every slot is taken by a pipeline.
+const STEP_QUEUE = 'agent-pipeline-steps';
+
+// Prefix of the queue ids BullMQ gives the runs of repeat and cron jobs
+const REPEAT_JOB_PREFIX = 'repeat:';
+
+// Jobs read from the queue at a time when records are rebuilt on boot
+const SYNC_PAGE_SIZE = 1000;
 
 export class JobsQueueManager {
   private queue!: Queue;
   private worker!: Worker;
   private queueEvents!: QueueEvents;
+  private stepQueue!: Queue;
+  private stepWorker!: Worker;
+  private stepQueueEvents!: QueueEvents;
   private functionsManager: FunctionsManager;
-  private jobs: Map<string, IJob> = new Map();
-  private scheduledJobs: Map<string, cron.ScheduledTask> = new Map();
+  private jobRepository: IJobRepository;
   private repeatJobs: Map<string, NodeJS.Timeout> = new Map();
+  private jobWaiters: Map<string, Set<(error: Error) => void>> = new Map();
+  private cancelSubscriber?: Redis;
   private redisConnection: RedisOptions;
 
-  constructor(functionsManager: FunctionsManager) {
+  constructor(functionsManager: FunctionsManager, jobRepository?: IJobRepository) {
     this.functionsManager = functionsManager;
+    this.jobRepository = jobRepository || createJobRepository();
+    this.functionsManager.setPipelineStepRunner(call => this.runPipelineStep(call));
     
     // Parse Redis URL for BullMQ connection
     this.redisConnection = this.parseRedisUrl(config.redis.url);
@@ -34,6 +80,17 @@ export class JobsQueueManager {
     this.initializeQueue();
     this.initializeWorker();
     this.initializeQueueEvents();
+    this.initializeCancelSubscriber();
+  }
+
+  // Called once before the first message is processed, so jobs queued before a restart
+  // are known again when callers ask for them
+  public async initialize(): Promise<void> {
+    try {
+      await this.syncFromQueue();
+    } catch (error) {
+      logger.error('Failed to rebuild job records from the queue:', error);
+    }
   }
 
   private parseRedisUrl(url: string): RedisOptions {
@@ -61,7 +118,13 @@ export class JobsQueueManager {
   }
 
   private initializeQueue(): void {
-    this.queue = new Queue('agent-jobs', {
+    this.queue = this.createQueue(JOB_QUEUE);
+    this.stepQueue = this.createQueue(STEP_QUEUE);
+    logger.info('BullMQ Queue initialized');
+  }
+
+  private createQueue(name: string): Queue {
+    return new Queue(name, {
       connection: this.redisConnection,
       defaultJobOptions: {
         removeOnComplete: 100,
@@ -73,15 +136,20 @@ export class JobsQueueManager {
         },
       },
     });
-
-    logger.info('BullMQ Queue initialized');
   }
 
   private initializeWorker(): void {
-    this.worker = new Worker(
-      'agent-jobs',
-      async (job: Job) => {
-        return await this.processJob(job);
+    this.worker = this.createWorker(JOB_QUEUE);
+    this.stepWorker = this.createWorker(STEP_QUEUE);
+    logger.info('BullMQ Worker initialized');
+  }
+
+  private createWorker(name: string): Worker {
+    const worker = new Worker(
+      name,
+      // Declaring the signal parameter makes BullMQ create an abort controller per job
+      async (job: Job, _token?: string, signal?: AbortSignal) => {
+        return await this.processJob(job, signal);
       },
       {
         connection: this.redisConnection,
@@ -93,137 +161,350 @@ export class JobsQueueManager {
       }
     );
 
-    this.setupWorkerEventHandlers();
-    logger.info('BullMQ Worker initialized');
+    this.setupWorkerEventHandlers(worker);
+    return worker;
   }
 
   private initializeQueueEvents(): void {
-    this.queueEvents = new QueueEvents('agent-jobs', {
-      connection: this.redisConnection,
-    });
+    this.queueEvents = new QueueEvents(JOB_QUEUE, { connection: this.redisConnection });
+    this.stepQueueEvents = new QueueEvents(STEP_QUEUE, { connection: this.redisConnection });
 
-    this.setupQueueEventHandlers();
+    this.setupQueueEventHandlers(this.queueEvents, this.queue);
+    this.setupQueueEventHandlers(this.stepQueueEvents, this.stepQueue);
     logger.info('BullMQ QueueEvents initialized');
   }
 
-  private setupWorkerEventHandlers(): void {
-    this.worker.on('completed', (job: Job, result: any) => {
-      this.updateJobStatus(job.id!, JobStatus.COMPLETED, result);
+  private initializeCancelSubscriber(): void {
+    this.cancelSubscriber = getRedisClient().duplicate();
+
+    this.cancelSubscriber.subscribe(JOB_CANCEL_CHANNEL).catch(error => {
+      logger.error('Failed to subscribe to job cancellations:', error);
+    });
+
+    this.cancelSubscriber.on('message', (channel: string, jobId: string) => {
+      if (channel === JOB_CANCEL_CHANNEL && this.abortRunningJob(jobId)) {
+        logger.info(`Aborting running job: ${jobId}`);
+      }
+    });
+  }
+
+  // Aborts a job running on this instance, on whichever worker holds it
+  private abortRunningJob(jobId: string): boolean {
+    return this.worker.cancelJob(jobId, 'cancelled') || this.stepWorker.cancelJob(jobId, 'cancelled');
+  }
+
+  // Pipeline steps live on the step queue; the job record tells which queue a job is on
+  private async getQueueForJob(jobId: string): Promise<{ queue: Queue; queueEvents: QueueEvents }> {
+    const job = await this.jobRepository.get(jobId);
+    return job?.data.parentJobId
+      ? { queue: this.stepQueue, queueEvents: this.stepQueueEvents }
+      : { queue: this.queue, queueEvents: this.queueEvents };
+  }
+
+  private setupWorkerEventHandlers(worker: Worker): void {
+    worker.on('completed', (job: Job, result: any) => {
+      this.finishRun(job, JobStatus.COMPLETED, result);
       logger.info(`Job completed: ${job.id}`, { result });
     });
 
-    this.worker.on('failed', (job: Job | undefined, error: Error) => {
+    worker.on('failed', (job: Job | undefined, error: Error) => {
       if (job) {
-        this.updateJobStatus(job.id!, JobStatus.FAILED, null, error.message);
+        // Failed attempts that will be retried keep their slot
+        const final = error instanceof UnrecoverableError || job.attemptsMade >= (job.opts.attempts || 1);
+        if (final) {
+          this.finishRun(job, JobStatus.FAILED, null, error.message);
+        } else {
+          this.updateJobStatus(this.getRecordId(job), JobStatus.FAILED, null, error.message);
+        }
         logger.error(`Job failed: ${job.id}`, { error: error.message });
       }
     });
 
-    this.worker.on('active', (job: Job) => {
-      this.updateJobStatus(job.id!, JobStatus.RUNNING);
+    worker.on('active', (job: Job) => {
+      this.updateJobStatus(this.getRecordId(job), JobStatus.RUNNING);
       logger.info(`Job started: ${job.id}`);
     });
 
-    this.worker.on('stalled', (jobId: string) => {
+    worker.on('stalled', (jobId: string) => {
       logger.warn(`Job stalled: ${jobId}`);
     });
 
-    this.worker.on('error', (error: Error) => {
+    worker.on('error', (error: Error) => {
       logger.error('Worker error:', error);
     });
   }
 
-  private setupQueueEventHandlers(): void {
-    this.queueEvents.on('waiting', ({ jobId }) => {
-      this.updateJobStatus(jobId, JobStatus.PENDING);
+  private setupQueueEventHandlers(queueEvents: QueueEvents, queue: Queue): void {
+    // Runs of repeat and cron jobs are looked up to find the record they belong to
+    const withJob = (jobId: string, handle: (job: Job | undefined) => void) => {
+      if (!jobId.startsWith(REPEAT_JOB_PREFIX)) {
+        handle(undefined);
+        return;
+      }
+      queue.getJob(jobId).then(job => job && handle(job)).catch(error => {
+        logger.error(`Error looking up job ${jobId}:`, error);
+      });
+    };
+
+    queueEvents.on('waiting', ({ jobId }) => {
+      withJob(jobId, job => this.updateJobStatus(job ? this.getRecordId(job) : jobId, JobStatus.PENDING));
       logger.info(`Job waiting: ${jobId}`);
     });
 
-    this.queueEvents.on('active', ({ jobId }) => {
-      this.updateJobStatus(jobId, JobStatus.RUNNING);
+    queueEvents.on('active', ({ jobId }) => {
+      withJob(jobId, job => this.updateJobStatus(job ? this.getRecordId(job) : jobId, JobStatus.RUNNING));
       logger.info(`Job active: ${jobId}`);
     });
 
-    this.queueEvents.on('completed', ({ jobId, returnvalue }) => {
-      this.updateJobStatus(jobId, JobStatus.COMPLETED, returnvalue);
+    queueEvents.on('completed', ({ jobId, returnvalue }) => {
+      withJob(jobId, job => job
+        ? this.finishRun(job, JobStatus.COMPLETED, returnvalue)
+        : this.updateJobStatus(jobId, JobStatus.COMPLETED, returnvalue));
       logger.info(`Job completed: ${jobId}`);
     });
 
-    this.queueEvents.on('failed', ({ jobId, failedReason }) => {
-      this.updateJobStatus(jobId, JobStatus.FAILED, null, failedReason);
+    queueEvents.on('failed', ({ jobId, failedReason }) => {
+      withJob(jobId, job => job
+        ? this.finishRun(job, JobStatus.FAILED, null, failedReason)
+        : this.updateJobStatus(jobId, JobStatus.FAILED, null, failedReason));
       logger.error(`Job failed: ${jobId}`, { reason: failedReason });
     });
+
+    // Jobs removed by another instance never finish; release anyone waiting on them
+    queueEvents.on('removed', ({ jobId }) => {
+      this.rejectJobWaiters(jobId, new Error(`Job ${jobId} was cancelled`));
+    });
   }
 
-  private async processJob(job: Job): Promise<any> {
+  private async processJob(job: Job, signal?: AbortSignal): Promise<any> {
     const jobData = job.data as IJobData;
     const jobId = job.id!;
 
     try {
-      logger.info(`Processing job: ${jobId}`, { functionName: jobData.functionName });
-
-      // Validate function exists
-      if (!this.functionsManager.getFunction(jobData.functionName)) {
-        throw new Error(`Function ${jobData.functionName} not found`);
-      }
-
-      // Validate function call parameters
-      if (!this.functionsManager.validateFunctionCall(jobData.functionName, jobData.parameters)) {
-        throw new Error(`Invalid parameters for function ${jobData.functionName}`);
+      logger.info(`Processing job: ${jobId}`, { functionName: jobData.functionName, functionVersion: jobData.functionVersion });
+
+      // Validate function exists; jobs queued before versioning run the current version.
+      // Retrying cannot bring back a version whose file was removed.
+      if (!this.functionsManager.getFunction(jobData.functionName, jobData.functionVersion)) {
+        const ref = formatFunctionRef(jobData.functionName, jobData.functionVersion);
+        throw new UnrecoverableError(jobData.functionVersion
+          ? `Function ${ref} is no longer loaded; keep its file to run jobs queued with it`
+          : `Function ${ref} not found`);
       }
 
       // Create execution context
       const context: IExecutionContext = {
-        jobId,
+        jobId: this.getRecordId(job),
+        userId: jobData.userId,
+        sessionId: jobData.sessionId,
         metadata: { 
           executionType: jobData.executionType,
           bullmqJobId: jobId,
           attempts: job.attemptsMade,
+          requestId: jobData.requestId,
+          tenantId: jobData.tenantId,
         },
         logger,
+        signal,
+        // Sandboxed handlers' logs end up in the job's log
+        onLog: line => {
+          job.log(line).catch(() => undefined);
+        },
       };
 
-      // Execute function with progress reporting
+      // Execute function with progress reporting. It validates the parameters first.
       job.updateProgress(10);
       
       const result = await this.functionsManager.executeFunction(
         jobData.functionName,
         jobData.parameters,
-        context
+        context,
+        jobData.functionVersion
       );
 
       job.updateProgress(100);
       return result;
     } catch (error) {
+      // A cancelled job must not be retried. Jobs interrupted by shutdown fail normally,
+      // so they are retried once an instance is back up.
+      if (signal?.aborted && toAbortError(signal).reason === 'cancelled') {
+        logger.info(`Job cancelled while running: ${jobId}`);
+        throw new UnrecoverableError(toAbortError(signal).message);
+      }
+      // Retrying will not fix invalid arguments
+      if (error instanceof FunctionValidationError) {
+        throw new UnrecoverableError(error.message);
+      }
+
       logger.error(`Job execution failed: ${jobId}`, error);
       throw error;
     }
   }
 
-  private updateJobStatus(jobId: string, status: JobStatus, result?: any, error?: string): void {
-    const job = this.jobs.get(jobId);
-    if (job) {
-      job.status = status;
-      if (result !== undefined) job.result = result;
-      if (error) job.error = error;
-      
-      if (status === JobStatus.RUNNING) {
-        job.startedAt = new Date();
-      } else if (status === JobStatus.COMPLETED || status === JobStatus.FAILED) {
-        job.completedAt = new Date();
+  // Runs of repeat and cron jobs have queue ids of their own; their data carries the
+  // id of the job record they belong to
+  private getRecordId(job: Job): string {
+    return (job.data as IJobData).jobId || job.id!;
+  }
+
+  // Records the end of a run. The record of a repeat or cron job stays pending until
+  // its last run, and shows the outcome of the latest one. The job's quota slot is
+  // released after its last run.
+  private finishRun(job: Job, status: JobStatus.COMPLETED | JobStatus.FAILED, result?: any, error?: string): void {
+    const recordId = this.getRecordId(job);
+    if (this.hasNextRun(job)) {
+      this.updateJobStatus(recordId, JobStatus.PENDING, result, error, [JobStatus.PENDING, JobStatus.RUNNING]);
+    } else {
+      this.updateJobStatus(recordId, status, result, error);
+      this.releaseQuotaSlot(recordId);
+    }
+  }
+
+  private hasNextRun(job: Job): boolean {
+    const repeat = job.opts.repeat;
+    if (!repeat) {
+      return false;
+    }
+
+    const endDate = repeat.endDate ? new Date(repeat.endDate) : undefined;
+    if (repeat.pattern) {
+      return getNextCronRuns(repeat.pattern, { timezone: repeat.tz, endDate, count: 1 }).length > 0;
+    }
+    // Same schedule as BullMQ: every run lands on a multiple of the interval
+    const next = repeat.every ? (Math.floor(Date.now() / repeat.every) + 1) * repeat.every : undefined;
+    return next !== undefined && (!endDate || next <= endDate.getTime());
+  }
+
+  private updateJobStatus(
+    jobId: string,
+    status: JobStatus,
+    result?: any,
+    error?: string,
+    allowedFrom: JobStatus[] = JOB_STATUS_TRANSITIONS[status]
+  ): void {
+    const changes: Partial<IJob> = { status };
+    if (result !== undefined && result !== null) changes.result = result;
+    if (error) changes.error = error;
+
+    if (status === JobStatus.RUNNING) {
+      changes.startedAt = new Date();
+    } else if (status === JobStatus.COMPLETED || status === JobStatus.FAILED || status === JobStatus.CANCELLED) {
+      changes.completedAt = new Date();
+    }
+
+    this.jobRepository.update(jobId, changes, allowedFrom).catch(updateError => {
+      logger.error(`Error updating status of job ${jobId}:`, updateError);
+    });
+  }
+
+  private releaseQuotaSlot(jobId: string): void {
+    getQuotaManager().releaseJobSlot(jobId).catch(error => {
+      logger.error(`Error releasing quota slot of job ${jobId}:`, error);
+    });
+  }
+
+  private async isJobActive(jobId: string): Promise<boolean> {
+    const job = await this.jobRepository.get(jobId);
+    return !!job && (job.status === JobStatus.PENDING || job.status === JobStatus.RUNNING);
+  }
+
+  // Rebuilds job records from BullMQ on boot, so jobs survive a restart of this process
+  private async syncFromQueue(): Promise<void> {
+    const states: JobType[] = ['waiting', 'active', 'delayed', 'prioritized', 'paused', 'completed', 'failed'];
+    let scanned = 0;
+    let restored = 0;
+
+    for (const queue of [this.queue, this.stepQueue]) {
+      for (const state of states) {
+        for (let start = 0; ; start += SYNC_PAGE_SIZE) {
+          const bullJobs = await queue.getJobs(state, start, start + SYNC_PAGE_SIZE - 1);
+          scanned += bullJobs.length;
+
+          for (const bullJob of bullJobs) {
+            if (await this.syncJob(bullJob, this.toJobStatus(state))) {
+              restored++;
+            }
+          }
+
+          if (bullJobs.length < SYNC_PAGE_SIZE) {
+            break;
+          }
+        }
       }
+    }
+
+    logger.info('Job records synchronized with queue', { scanned, restored });
+  }
+
+  // Returns whether a missing record was restored
+  private async syncJob(bullJob: Job | undefined, status: JobStatus): Promise<boolean> {
+    // Runs of repeat and cron jobs have no records of their own; they update their job's
+    // record as they run
+    if (!bullJob || !bullJob.id || bullJob.id.startsWith(REPEAT_JOB_PREFIX)) {
+      return false;
+    }
+
+    const existing = await this.jobRepository.get(bullJob.id);
+    if (!existing) {
+      await this.jobRepository.save({
+        id: bullJob.id,
+        data: bullJob.data as IJobData,
+        status,
+        createdAt: new Date(bullJob.timestamp),
+        startedAt: bullJob.processedOn ? new Date(bullJob.processedOn) : undefined,
+        completedAt: bullJob.finishedOn ? new Date(bullJob.finishedOn) : undefined,
+        result: bullJob.returnvalue ?? undefined,
+        error: bullJob.failedReason || undefined,
+      });
+      return true;
+    }
+
+    if (existing.status !== status) {
+      // Transitions that happened while no instance was listening
+      await this.jobRepository.update(bullJob.id, {
+        status,
+        result: bullJob.returnvalue ?? undefined,
+        error: bullJob.failedReason || undefined,
+        completedAt: bullJob.finishedOn ? new Date(bullJob.finishedOn) : undefined,
+      }, JOB_STATUS_TRANSITIONS[status]);
+    }
+    return false;
+  }
 
-      this.jobs.set(jobId, job);
+  private toJobStatus(state: string): JobStatus {
+    switch (state) {
+      case 'active':
+        return JobStatus.RUNNING;
+      case 'completed':
+        return JobStatus.COMPLETED;
+      case 'failed':
+        return JobStatus.FAILED;
+      default:
+        return JobStatus.PENDING;
     }
   }
 
   public async addJob(jobData: IJobData): Promise<string> {
+    const jobId = uuidv4();
+
     try {
-      const jobId = uuidv4();
-      
-      // Validate function exists
-      if (!this.functionsManager.getFunction(jobData.functionName)) {
-        throw new Error(`Function ${jobData.functionName} not found`);
+      // Pin the job to a version, so retries and repeats keep running it after new deployments
+      const func = jobData.functionVersion
+        ? this.functionsManager.getFunction(jobData.functionName, jobData.functionVersion)
+        : this.functionsManager.resolveFunction(jobData.functionName, jobData.userId || jobData.sessionId);
+      if (!func) {
+        throw new Error(`Function ${formatFunctionRef(jobData.functionName, jobData.functionVersion)} not found`);
+      }
+      jobData = { ...jobData, functionVersion: func.definition.version };
+
+      // Throws QuotaExceededError when the user or tenant already has too many jobs. A
+      // pipeline's steps run within the slot of the pipeline's job.
+      if (!jobData.parentJobId) {
+        await getQuotaManager().acquireJobSlot(
+          { userId: jobData.userId, tenantId: jobData.tenantId },
+          jobId,
+          id => this.isJobActive(id)
+        );
       }
 
       // Create job record
@@ -234,7 +515,7 @@ export class JobsQueueManager {
         createdAt: new Date(),
       };
 
-      this.jobs.set(jobId, job);
+      await this.jobRepository.save(job);
 
       // Handle different execution types
       switch (jobData.executionType) {
@@ -247,14 +528,22 @@ export class JobsQueueManager {
         case JobExecutionType.REPEAT:
           await this.addRepeatJob(jobId, jobData);
           break;
+        case JobExecutionType.CRON:
+          await this.addCronJob(jobId, jobData);
+          break;
         default:
           throw new Error(`Unsupported execution type: ${jobData.executionType}`);
       }
 
-      logger.info(`Job added: ${jobId}`, { functionName: jobData.functionName, type: jobData.executionType });
+      logger.info(`Job added: ${jobId}`, {
+        functionName: jobData.functionName,
+        functionVersion: jobData.functionVersion,
+        type: jobData.executionType,
+      });
       return jobId;
     } catch (error) {
       logger.error('Error adding job:', error);
+      this.releaseQuotaSlot(jobId);
       throw error;
     }
   }
@@ -267,7 +556,7 @@ export class JobsQueueManager {
       delay: 0,
     };
 
-    await this.queue.add('execute-function', jobData, options);
+    await (jobData.parentJobId ? this.stepQueue : this.queue).add('execute-function', jobData, options);
   }
 
   private async addScheduledJob(jobId: string, jobData: IJobData): Promise<void> {
@@ -296,7 +585,7 @@ export class JobsQueueManager {
     }
 
     // Only runner functions can be repeated
-    const func = this.functionsManager.getFunction(jobData.functionName);
+    const func = this.functionsManager.getFunction(jobData.functionName, jobData.functionVersion);
     if (func?.definition.type !== 'runner') {
       throw new Error('Only runner functions can be repeated');
     }
@@ -316,27 +605,76 @@ export class JobsQueueManager {
       repeat: repeatOptions,
     };
 
-    await this.queue.add('execute-function', jobData, options);
+    await this.queue.add('execute-function', { ...jobData, jobId }, options);
+  }
+
+  private async addCronJob(jobId: string, jobData: IJobData): Promise<void> {
+    // Only runner functions can be repeated
+    const func = this.functionsManager.getFunction(jobData.functionName, jobData.functionVersion);
+    if (func?.definition.type !== 'runner') {
+      throw new Error('Only runner functions can run on a cron schedule');
+    }
+
+    validateCronExpression(jobData.cronExpression!, jobData.timezone);
+
+    const options: JobsOptions = {
+      jobId,
+      priority: jobData.priority || 0,
+      attempts: jobData.retries || 3,
+      repeat: this.getCronRepeatOptions(jobData),
+    };
+
+    await this.queue.add('execute-function', { ...jobData, jobId }, options);
+  }
+
+  private getCronRepeatOptions(jobData: IJobData): RepeatOptions {
+    return {
+      pattern: jobData.cronExpression,
+      tz: jobData.timezone || config.jobs.timezone,
+      endDate: jobData.repeatDeadline,
+    };
+  }
+
+  // Removes the repeatable entry that schedules the runs of a repeat or cron job, and
+  // with it the next run waiting in the queue
+  private async removeSchedule(jobId: string): Promise<void> {
+    const repeatables = await this.queue.getRepeatableJobs();
+    for (const repeatable of repeatables.filter(entry => entry.id === jobId)) {
+      await this.queue.removeRepeatableByKey(repeatable.key);
+    }
   }
 
   public async cancelJob(jobId: string): Promise<boolean> {
     try {
-      const job = this.jobs.get(jobId);
+      const job = await this.jobRepository.get(jobId);
       if (!job) {
         return false;
       }
 
-      // Cancel from BullMQ queue
-      const bullJob = await this.queue.getJob(jobId);
+      // Record the cancellation first, so the failure reported by an aborted
+      // handler is ignored as a stale transition and the job stays cancelled
+      await this.jobRepository.update(
+        jobId,
+        { status: JobStatus.CANCELLED, completedAt: new Date() },
+        JOB_STATUS_TRANSITIONS[JobStatus.CANCELLED]
+      );
+
+      // Cancel from BullMQ queue; active jobs are locked and have to be aborted instead
+      const { queue } = await this.getQueueForJob(jobId);
+      const bullJob = await queue.getJob(jobId);
       if (bullJob) {
-        await bullJob.remove();
+        if (await bullJob.isActive()) {
+          if (!this.abortRunningJob(jobId)) {
+            await getRedisClient().publish(JOB_CANCEL_CHANNEL, jobId);
+          }
+        } else {
+          await bullJob.remove();
+        }
       }
 
-      // Cancel scheduled job
-      const scheduledTask = this.scheduledJobs.get(jobId);
-      if (scheduledTask) {
-        scheduledTask.stop();
-        this.scheduledJobs.delete(jobId);
+      // Stop the schedule of repeat and cron jobs, whose runs have ids of their own
+      if (job.data.executionType === JobExecutionType.REPEAT || job.data.executionType === JobExecutionType.CRON) {
+        await this.removeSchedule(jobId);
       }
 
       // Cancel repeat job
@@ -346,8 +684,8 @@ export class JobsQueueManager {
         this.repeatJobs.delete(jobId);
       }
 
-      // Update job status
-      this.updateJobStatus(jobId, JobStatus.CANCELLED);
+      this.rejectJobWaiters(jobId, new Error(`Job ${jobId} was cancelled`));
+      this.releaseQuotaSlot(jobId);
       
       logger.info(`Job cancelled: ${jobId}`);
       return true;
@@ -357,11 +695,140 @@ export class JobsQueueManager {
     }
   }
 
+  public async awaitJob(jobId: string, options: IAwaitJobOptions = {}): Promise<any> {
+    const { queue, queueEvents } = await this.getQueueForJob(jobId);
+    const bullJob = await queue.getJob(jobId);
+
+    if (!bullJob) {
+      // Finished jobs may already have been trimmed from BullMQ, but their record remains
+      const job = await this.jobRepository.get(jobId);
+      switch (job?.status) {
+        case JobStatus.COMPLETED:
+          return job.result;
+        case JobStatus.FAILED:
+          throw new Error(job.error || 'Job failed');
+        case JobStatus.CANCELLED:
+          throw new Error(`Job ${jobId} was cancelled`);
+        default:
+          throw new Error(`Job ${jobId} not found`);
+      }
+    }
+
+    const timeout = options.timeout ?? this.getWaitTimeout(bullJob);
+    const { signal } = options;
+
+    logger.info('Awaiting job completion', { jobId, timeout });
+
+    return new Promise((resolve, reject) => {
+      let settled = false;
+
+      const settle = (error: Error | null, result?: any) => {
+        if (settled) return;
+        settled = true;
+
+        const waiters = this.jobWaiters.get(jobId);
+        waiters?.delete(cancel);
+        if (waiters && waiters.size === 0) {
+          this.jobWaiters.delete(jobId);
+        }
+        signal?.removeEventListener('abort', onAbort);
+
+        if (error) {
+          reject(error);
+        } else {
+          resolve(result);
+        }
+      };
+
+      const cancel = (error: Error) => settle(error);
+      const onAbort = () => settle(new Error(`Waiting for job ${jobId} was aborted`));
+
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      if (!this.jobWaiters.has(jobId)) {
+        this.jobWaiters.set(jobId, new Set());
+      }
+      this.jobWaiters.get(jobId)!.add(cancel);
+
+      bullJob.waitUntilFinished(queueEvents, timeout).then(
+        result => settle(null, result),
+        error => settle(error instanceof Error ? error : new Error(String(error)))
+      );
+    });
+  }
+
+  // Long enough for every attempt of the job to run out the function's timeout, with
+  // BullMQ's backoff between the attempts
+  private getWaitTimeout(bullJob: Job): number {
+    const jobData = bullJob.data as IJobData;
+    const func = this.functionsManager.getFunction(jobData.functionName, jobData.functionVersion);
+    const functionTimeout = func ? getFunctionTimeout(func.definition) : config.functions.timeoutMs;
+    const attempts = bullJob.opts.attempts || 1;
+    const backoff = typeof bullJob.opts.backoff === 'number'
+      ? { type: 'fixed', delay: bullJob.opts.backoff }
+      : bullJob.opts.backoff;
+
+    let timeout = attempts * functionTimeout + JOB_WAIT_GRACE_MS;
+    for (let retry = 1; retry < attempts; retry++) {
+      const delay = backoff?.delay || 0;
+      timeout += backoff?.type === 'exponential' ? delay * 2 ** (retry - 1) : delay;
+    }
+    return timeout;
+  }
+
+  // Runs one pipeline step as a child job of the pipeline's job on the step queue and waits
+  // for its result. A pipeline used as a step runs inline in the same job, so nothing on
+  // the step queue ever waits for other jobs. A child that is still queued or running
+  // when the wait ends, by timeout or by the pipeline being cancelled, is cancelled.
+  private async runPipelineStep(call: IPipelineStepCall): Promise<any> {
+    const { context } = call;
+    const func = call.functionVersion
+      ? this.functionsManager.getFunction(call.functionName, call.functionVersion)
+      : this.functionsManager.resolveFunction(call.functionName, context?.userId || context?.sessionId);
+    if (func?.definition.type === FunctionType.PIPELINE) {
+      return this.functionsManager.executeFunction(call.functionName, call.parameters, context, func.definition.version);
+    }
+
+    const childJobId = await this.addJob({
+      functionName: call.functionName,
+      functionVersion: call.functionVersion,
+      parameters: call.parameters,
+      executionType: JobExecutionType.INSTANT,
+      userId: context?.userId,
+      sessionId: context?.sessionId,
+      tenantId: context?.metadata?.tenantId,
+      requestId: context?.metadata?.requestId,
+      parentJobId: context?.jobId,
+      pipelineStep: `${call.pipeline}.${call.stepId}`,
+    });
+
+    try {
+      return await this.awaitJob(childJobId, { signal: context?.signal });
+    } catch (error) {
+      if (await this.isJobActive(childJobId)) {
+        await this.cancelJob(childJobId);
+      }
+      throw error;
+    }
+  }
+
+  private rejectJobWaiters(jobId: string, error: Error): void {
+    const waiters = this.jobWaiters.get(jobId);
+    if (!waiters) return;
+
+    Array.from(waiters).forEach(cancel => cancel(error));
+    this.jobWaiters.delete(jobId);
+  }
+
   public async removeJob(jobId: string): Promise<boolean> {
     try {
       const cancelled = await this.cancelJob(jobId);
       if (cancelled) {
-        this.jobs.delete(jobId);
+        await this.jobRepository.delete(jobId);
         logger.info(`Job removed: ${jobId}`);
       }
       return cancelled;
@@ -373,18 +840,18 @@ export class JobsQueueManager {
 
   public async setPriority(jobId: string, priority: number): Promise<boolean> {
     try {
-      const job = await this.queue.getJob(jobId);
+      const { queue } = await this.getQueueForJob(jobId);
+      const job = await queue.getJob(jobId);
       if (!job) {
         return false;
       }
 
       await job.changePriority(priority);
       
-      // Update local job record
-      const localJob = this.jobs.get(jobId);
-      if (localJob) {
-        localJob.data.priority = priority;
-        this.jobs.set(jobId, localJob);
+      // Update stored job record
+      const storedJob = await this.jobRepository.get(jobId);
+      if (storedJob) {
+        await this.jobRepository.update(jobId, { data: { ...storedJob.data, priority } });
       }
 
       logger.info(`Job priority updated: ${jobId}`, { priority });
@@ -395,16 +862,17 @@ export class JobsQueueManager {
     }
   }
 
-  public getJob(jobId: string): IJob | undefined {
-    return this.jobs.get(jobId);
+  public async getJob(jobId: string): Promise<IJob | undefined> {
+    return this.jobRepository.get(jobId);
   }
 
-  public getAllJobs(): IJob[] {
-    return Array.from(this.jobs.values());
+  public async getAllJobs(): Promise<IJob[]> {
+    return this.jobRepository.getAll();
   }
 
-  public getJobsByStatus(status: JobStatus): IJob[] {
-    return Array.from(this.jobs.values()).filter(job => job.status === status);
+  public async getJobsByStatus(status: JobStatus): Promise<IJob[]> {
+    const jobs = await this.jobRepository.getAll();
+    return jobs.filter(job => job.status === status);
   }
 
   public async getQueueStats(): Promise<{
@@ -436,28 +904,30 @@ export class JobsQueueManager {
 
   public async pauseQueue(): Promise<void> {
     await this.queue.pause();
+    await this.stepQueue.pause();
     logger.info('Job queue paused');
   }
 
   public async resumeQueue(): Promise<void> {
     await this.queue.resume();
+    await this.stepQueue.resume();
     logger.info('Job queue resumed');
   }
 
   public async cleanJobs(): Promise<void> {
     const grace = 24 * 60 * 60 * 1000; // 24 hours
-    await this.queue.clean(grace, 100, 'completed');
-    await this.queue.clean(grace, 100, 'failed');
+    for (const queue of [this.queue, this.stepQueue]) {
+      await queue.clean(grace, 100, 'completed');
+      await queue.clean(grace, 100, 'failed');
+    }
     logger.info('Old jobs cleaned from queue');
   }
 
   public async getJobLogs(jobId: string): Promise<string[]> {
     try {
-      const job = await this.queue.getJob(jobId);
-      if (!job) {
-        return [];
-      }
-      return job.log || [];
+      const { queue } = await this.getQueueForJob(jobId);
+      const { logs } = await queue.getJobLogs(jobId);
+      return logs;
     } catch (error) {
       logger.error(`Error getting job logs for ${jobId}:`, error);
       return [];
@@ -466,7 +936,8 @@ export class JobsQueueManager {
 
   public async retryJob(jobId: string): Promise<boolean> {
     try {
-      const job = await this.queue.getJob(jobId);
+      const { queue } = await this.getQueueForJob(jobId);
+      const job = await queue.getJob(jobId);
       if (!job) {
         return false;
       }
@@ -505,15 +976,12 @@ export class JobsQueueManager {
 
   public getHealthStatus(): IHealthStatus {
     try {
-      const totalJobs = this.jobs.size;
-      const activeJobs = this.getJobsByStatus(JobStatus.RUNNING).length;
-      const pendingJobs = this.getJobsByStatus(JobStatus.PENDING).length;
       const repeatJobsCount = this.repeatJobs.size;
 
       return {
         module: 'JobsQueueManager',
         status: 'healthy',
-        details: `Total: ${totalJobs}, Active: ${activeJobs}, Pending: ${pendingJobs}, Repeat: ${repeatJobsCount}`,
+        details: `Store: ${config.jobs.store}, Repeat: ${repeatJobsCount}`,
         timestamp: new Date(),
       };
     } catch (error) {
@@ -537,17 +1005,18 @@ export class JobsQueueManager {
       }
       this.repeatJobs.clear();
 
-      // Stop all scheduled jobs
-      for (const [jobId, task] of this.scheduledJobs) {
-        task.stop();
-        logger.info(`Stopped scheduled job: ${jobId}`);
-      }
-      this.scheduledJobs.clear();
+      // Let running handlers stop early; worker.close() waits for them to settle
+      this.worker.cancelAllJobs('shutdown');
+      this.stepWorker.cancelAllJobs('shutdown');
 
       // Close BullMQ components gracefully
       await this.worker.close();
+      await this.stepWorker.close();
       await this.queueEvents.close();
+      await this.stepQueueEvents.close();
       await this.queue.close();
+      await this.stepQueue.close();
+      await this.cancelSubscriber?.quit();
       
       logger.info('JobsQueueManager shutdown completed');
     } catch (error) {
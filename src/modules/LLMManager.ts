@@ -1,15 +1,32 @@
 import OpenAI from 'openai';
 import Anthropic from '@anthropic-ai/sdk';
 import { GoogleGenerativeAI } from '@google/generative-ai';
+import axios from 'axios';
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from '../utils/logger';
 import { config } from '../config';
 import {
   ILLMConfig,
   ILLMResponse,
+  ILLMMessage,
+  ILLMStreamChunk,
+  ILLMToolCall,
+  ILLMToolDefinition,
+  ILLMCallContext,
+  ILLMRoute,
+  ILLMRetryPolicy,
   LLMProvider,
+  IHealthCheck,
   IHealthStatus,
 } from '../types';
+import { toJsonSchema, toGeminiParameters } from '../utils/functionSchema';
+import { abortable, sleep, toAbortError } from '../utils/abort';
+import { MockLLMClient, loadMockFixtures, recordCassetteEntry } from '../utils/mockLLM';
+import { getUsageTracker } from './UsageTracker';
+import { getQuotaManager } from './QuotaManager';
+
+const DEFAULT_OLLAMA_BASE_URL = 'http://localhost:11434';
+const HEALTH_PROBE_TIMEOUT_MS = 5000;
 
 interface ILLMInstance {
   id: string;
@@ -19,8 +36,20 @@ interface ILLMInstance {
   lastUsed?: Date;
 }
 
+// A route without instances could not answer any call, so its last instance stays
+export class LastRouteInstanceError extends Error {
+  public readonly routes: string[];
+
+  constructor(instanceId: string, routes: string[]) {
+    super(`LLM instance ${instanceId} is the only instance of route ${routes.join(', ')}; edit the instance instead`);
+    this.name = 'LastRouteInstanceError';
+    this.routes = routes;
+  }
+}
+
 export class LLMManager {
   private instances: Map<string, ILLMInstance> = new Map();
+  private routes: Map<string, ILLMRoute> = new Map();
 
   constructor() {
     // Create default instances if API keys are available
@@ -28,6 +57,17 @@ export class LLMManager {
   }
 
   private initializeDefaultInstances(): void {
+    // In mock mode no real provider is used, so tests never need API keys
+    if (config.llm.mock.enabled) {
+      this.createInstance({
+        provider: LLMProvider.MOCK,
+        apiKey: '',
+        model: 'mock',
+        systemPrompt: 'You are a helpful AI assistant.',
+      });
+      return;
+    }
+
     // OpenAI default instance
     if (config.llm.openai.apiKey) {
       this.createInstance({
@@ -63,33 +103,71 @@ export class LLMManager {
         systemPrompt: 'You are a helpful AI assistant.',
       });
     }
+
+    // OpenAI-compatible server default instance
+    if (config.llm.openaiCompatible.baseURL && config.llm.openaiCompatible.model) {
+      this.createInstance({
+        provider: LLMProvider.OPENAI_COMPATIBLE,
+        apiKey: config.llm.openaiCompatible.apiKey,
+        baseURL: config.llm.openaiCompatible.baseURL,
+        model: config.llm.openaiCompatible.model,
+        streamUsage: config.llm.openaiCompatible.streamUsage,
+        temperature: 0.7,
+        maxTokens: 2000,
+        systemPrompt: 'You are a helpful AI assistant.',
+      });
+    }
+
+    // Ollama default instance
+    if (config.llm.ollama.baseURL) {
+      this.createInstance({
+        provider: LLMProvider.OLLAMA,
+        apiKey: '',
+        baseURL: config.llm.ollama.baseURL,
+        model: config.llm.ollama.model,
+        temperature: 0.7,
+        maxTokens: 2000,
+        systemPrompt: 'You are a helpful AI assistant.',
+      });
+    }
   }
 
-  public createInstance(config: ILLMConfig): string {
-    try {
-      const instanceId = uuidv4();
-      let client: any;
+  private createClient(llmConfig: ILLMConfig): any {
+    switch (llmConfig.provider) {
+      case LLMProvider.OPENAI:
+        return new OpenAI({ apiKey: llmConfig.apiKey });
 
-      switch (config.provider) {
-        case LLMProvider.OPENAI:
-          client = new OpenAI({
-            apiKey: config.apiKey,
-          });
-          break;
+      case LLMProvider.ANTHROPIC:
+        return new Anthropic({ apiKey: llmConfig.apiKey });
 
-        case LLMProvider.ANTHROPIC:
-          client = new Anthropic({
-            apiKey: config.apiKey,
-          });
-          break;
+      case LLMProvider.GOOGLE:
+        return new GoogleGenerativeAI(llmConfig.apiKey);
 
-        case LLMProvider.GOOGLE:
-          client = new GoogleGenerativeAI(config.apiKey);
-          break;
+      case LLMProvider.OPENAI_COMPATIBLE:
+        if (!llmConfig.baseURL) {
+          throw new Error('baseURL is required for the openai_compatible provider');
+        }
+        // Most local servers ignore the key, but the SDK refuses to start without one
+        return new OpenAI({ apiKey: llmConfig.apiKey || 'not-needed', baseURL: llmConfig.baseURL });
 
-        default:
-          throw new Error(`Unsupported LLM provider: ${config.provider}`);
-      }
+      case LLMProvider.OLLAMA:
+        return axios.create({
+          baseURL: llmConfig.baseURL || DEFAULT_OLLAMA_BASE_URL,
+          ...(llmConfig.apiKey && { headers: { Authorization: `Bearer ${llmConfig.apiKey}` } }),
+        });
+
+      case LLMProvider.MOCK:
+        return new MockLLMClient(loadMockFixtures(config.llm.mock.fixturesPath));
+
+      default:
+        throw new Error(`Unsupported LLM provider: ${llmConfig.provider}`);
+    }
+  }
+
+  public createInstance(config: ILLMConfig): string {
+    try {
+      const instanceId = uuidv4();
+      const client = this.createClient(config);
 
       const instance: ILLMInstance = {
         id: instanceId,
@@ -108,10 +186,21 @@ export class LLMManager {
     }
   }
 
+  // Throws LastRouteInstanceError instead of leaving a route empty
   public deleteInstance(instanceId: string): boolean {
+    const emptied = this.getAllRoutes()
+      .filter(route => route.instanceIds.length === 1 && route.instanceIds[0] === instanceId)
+      .map(route => route.name);
+    if (emptied.length > 0) {
+      throw new LastRouteInstanceError(instanceId, emptied);
+    }
+
     try {
       const deleted = this.instances.delete(instanceId);
       if (deleted) {
+        for (const route of this.routes.values()) {
+          route.instanceIds = route.instanceIds.filter(id => id !== instanceId);
+        }
         logger.info(`Deleted LLM instance: ${instanceId}`);
       }
       return deleted;
@@ -131,25 +220,9 @@ export class LLMManager {
       // Update config
       const updatedConfig = { ...instance.config, ...newConfig };
       
-      // Recreate client if provider or apiKey changed
-      if (newConfig.provider || newConfig.apiKey) {
-        let client: any;
-        
-        switch (updatedConfig.provider) {
-          case LLMProvider.OPENAI:
-            client = new OpenAI({ apiKey: updatedConfig.apiKey });
-            break;
-          case LLMProvider.ANTHROPIC:
-            client = new Anthropic({ apiKey: updatedConfig.apiKey });
-            break;
-          case LLMProvider.GOOGLE:
-            client = new GoogleGenerativeAI(updatedConfig.apiKey);
-            break;
-          default:
-            throw new Error(`Unsupported LLM provider: ${updatedConfig.provider}`);
-        }
-        
-        instance.client = client;
+      // Recreate client if provider, apiKey or baseURL changed
+      if (newConfig.provider || newConfig.apiKey || newConfig.baseURL) {
+        instance.client = this.createClient(updatedConfig);
       }
 
       instance.config = updatedConfig;
@@ -171,6 +244,137 @@ export class LLMManager {
     return Array.from(this.instances.values());
   }
 
+  public getConfiguredApiKey(provider: LLMProvider): string {
+    switch (provider) {
+      case LLMProvider.OPENAI:
+        return config.llm.openai.apiKey;
+      case LLMProvider.ANTHROPIC:
+        return config.llm.anthropic.apiKey;
+      case LLMProvider.GOOGLE:
+        return config.llm.google.apiKey;
+      case LLMProvider.OPENAI_COMPATIBLE:
+        return config.llm.openaiCompatible.apiKey;
+      default:
+        return '';
+    }
+  }
+
+  public getConfiguredBaseURL(provider: LLMProvider): string {
+    switch (provider) {
+      case LLMProvider.OPENAI_COMPATIBLE:
+        return config.llm.openaiCompatible.baseURL;
+      case LLMProvider.OLLAMA:
+        return config.llm.ollama.baseURL || DEFAULT_OLLAMA_BASE_URL;
+      default:
+        return '';
+    }
+  }
+
+  // Self-hosted servers usually run without authentication
+  public requiresApiKey(provider: LLMProvider): boolean {
+    return ![LLMProvider.OPENAI_COMPATIBLE, LLMProvider.OLLAMA, LLMProvider.MOCK].includes(provider);
+  }
+
+  public createRoute(name: string, instanceIds: string[], retry?: Partial<ILLMRetryPolicy>): ILLMRoute {
+    if (this.instances.has(name)) {
+      throw new Error(`Route name ${name} clashes with an instance id`);
+    }
+
+    const missing = instanceIds.filter(id => !this.instances.has(id));
+    if (instanceIds.length === 0 || missing.length > 0) {
+      throw new Error(`Route ${name} needs existing instances${missing.length > 0 ? `, unknown: ${missing.join(', ')}` : ''}`);
+    }
+
+    const route: ILLMRoute = {
+      name,
+      instanceIds: [...instanceIds],
+      retry: { ...config.llm.retry, ...retry },
+    };
+
+    this.routes.set(name, route);
+    logger.info(`Created LLM route: ${name}`, {
+      instances: route.instanceIds.map(id => this.instances.get(id)!.config.provider),
+      retry: route.retry,
+    });
+
+    return route;
+  }
+
+  public getRoute(name: string): ILLMRoute | undefined {
+    return this.routes.get(name);
+  }
+
+  public getAllRoutes(): ILLMRoute[] {
+    return Array.from(this.routes.values());
+  }
+
+  public deleteRoute(name: string): boolean {
+    return this.routes.delete(name);
+  }
+
+  // Rate limits, server errors, timeouts and dropped connections are worth another
+  // attempt; anything else (bad request, auth, aborts) fails the same way every time
+  private isRetryableError(error: any): boolean {
+    if (!error || error.name === 'ExecutionAbortedError' || error.name === 'AbortError') {
+      return false;
+    }
+
+    // OpenAI and Anthropic SDK errors carry the HTTP status, axios errors (Ollama) carry
+    // the response; Gemini puts it in the message
+    const status = typeof error.status === 'number'
+      ? error.status
+      : error.response?.status || Number((/\[(\d{3})[ \]]/.exec(String(error.message)) || [])[1]);
+    if (status) {
+      return status === 408 || status === 429 || status >= 500;
+    }
+
+    if (['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE'].includes(error.code)) {
+      return true;
+    }
+
+    return ['APIConnectionError', 'APIConnectionTimeoutError', 'FetchError'].includes(error.constructor?.name)
+      || /timeout|timed out|network|socket hang up|overloaded/i.test(String(error.message));
+  }
+
+  private getRetryDelay(policy: ILLMRetryPolicy, attempt: number): number {
+    const delay = policy.initialDelayMs * Math.pow(policy.backoffMultiplier, attempt - 1);
+    // Full jitter keeps instances sharing a rate limit from retrying in lockstep
+    return Math.round(Math.random() * Math.min(delay, policy.maxDelayMs));
+  }
+
+  // Runs an operation against the route's instances in order, retrying each with
+  // backoff on retryable errors before falling back to the next instance
+  private async runWithRoute<T>(
+    route: ILLMRoute,
+    operation: (instanceId: string) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    let lastError: unknown = new Error(`LLM route ${route.name} has no instances`);
+
+    for (const instanceId of route.instanceIds) {
+      for (let attempt = 1; attempt <= route.retry.maxAttempts; attempt++) {
+        try {
+          return await operation(instanceId);
+        } catch (error) {
+          lastError = error;
+          if (!this.isRetryableError(error) || signal?.aborted) {
+            throw error;
+          }
+
+          if (attempt < route.retry.maxAttempts) {
+            const delay = this.getRetryDelay(route.retry, attempt);
+            logger.warn(`Retrying LLM call on route ${route.name}`, { instanceId, attempt, delay });
+            await sleep(delay, signal);
+          }
+        }
+      }
+
+      logger.warn(`Falling back from instance ${instanceId} on route ${route.name}`);
+    }
+
+    throw lastError;
+  }
+
   public getInstancesByProvider(provider: LLMProvider): ILLMInstance[] {
     return Array.from(this.instances.values()).filter(
       instance => instance.config.provider === provider
@@ -181,6 +385,45 @@ export class LLMManager {
     instanceId: string,
     prompt: string,
     additionalContext?: string
+  ): Promise<ILLMResponse> {
+    return this.generateChat(instanceId, [this.buildUserMessage(prompt, additionalContext)]);
+  }
+
+  public async generateWithTools(
+    instanceId: string,
+    prompt: string,
+    tools: ILLMToolDefinition[],
+    additionalContext?: string
+  ): Promise<ILLMResponse> {
+    return this.generateChat(instanceId, [this.buildUserMessage(prompt, additionalContext)], tools);
+  }
+
+  // Accepts an instance id or the name of a route. The context tags the recorded usage.
+  public async generateChat(
+    target: string,
+    messages: ILLMMessage[],
+    tools?: ILLMToolDefinition[],
+    signal?: AbortSignal,
+    context?: ILLMCallContext
+  ): Promise<ILLMResponse> {
+    const route = this.routes.get(target);
+    if (route) {
+      return this.runWithRoute(
+        route,
+        instanceId => this.generateChatWithInstance(instanceId, messages, tools, signal, context),
+        signal
+      );
+    }
+
+    return this.generateChatWithInstance(target, messages, tools, signal, context);
+  }
+
+  private async generateChatWithInstance(
+    instanceId: string,
+    messages: ILLMMessage[],
+    tools?: ILLMToolDefinition[],
+    signal?: AbortSignal,
+    context?: ILLMCallContext
   ): Promise<ILLMResponse> {
     const instance = this.instances.get(instanceId);
     if (!instance) {
@@ -192,30 +435,40 @@ export class LLMManager {
       instance.lastUsed = new Date();
       this.instances.set(instanceId, instance);
 
-      const fullPrompt = additionalContext 
-        ? `${instance.config.systemPrompt || ''}\n\nContext: ${additionalContext}\n\nUser: ${prompt}`
-        : `${instance.config.systemPrompt || ''}\n\nUser: ${prompt}`;
-
       let response: ILLMResponse;
 
       switch (instance.config.provider) {
         case LLMProvider.OPENAI:
-          response = await this.generateOpenAIResponse(instance, fullPrompt);
+        case LLMProvider.OPENAI_COMPATIBLE:
+          response = await this.generateOpenAIResponse(instance, messages, tools, signal);
           break;
         case LLMProvider.ANTHROPIC:
-          response = await this.generateAnthropicResponse(instance, fullPrompt);
+          response = await this.generateAnthropicResponse(instance, messages, tools, signal);
           break;
         case LLMProvider.GOOGLE:
-          response = await this.generateGoogleResponse(instance, fullPrompt);
+          response = await this.generateGoogleResponse(instance, messages, tools, signal);
+          break;
+        case LLMProvider.OLLAMA:
+          response = await this.generateOllamaResponse(instance, messages, tools, signal);
+          break;
+        case LLMProvider.MOCK:
+          response = instance.client.respond(messages, tools, instance.config.model);
           break;
         default:
           throw new Error(`Unsupported provider: ${instance.config.provider}`);
       }
 
+      if (config.llm.mock.recordPath && instance.config.provider !== LLMProvider.MOCK) {
+        recordCassetteEntry(config.llm.mock.recordPath, messages, tools, response);
+      }
+      this.recordUsage(instance, response, context);
+
       logger.info(`Generated response using instance: ${instanceId}`, {
         provider: instance.config.provider,
-        inputLength: prompt.length,
+        messages: messages.length,
+        inputLength: messages.reduce((total, message) => total + message.content.length, 0),
         outputLength: response.content.length,
+        toolCalls: response.toolCalls?.map(call => call.name),
       });
 
       return response;
@@ -225,21 +478,283 @@ export class LLMManager {
     }
   }
 
-  private async generateOpenAIResponse(instance: ILLMInstance, prompt: string): Promise<ILLMResponse> {
-    const completion = await instance.client.chat.completions.create({
+  // Accepts an instance id or the name of a route. A route can only retry or fall
+  // back until the first chunk has been yielded; after that errors are passed on.
+  public async *streamResponse(
+    target: string,
+    messages: ILLMMessage[],
+    tools?: ILLMToolDefinition[],
+    signal?: AbortSignal,
+    context?: ILLMCallContext
+  ): AsyncGenerator<ILLMStreamChunk> {
+    const route = this.routes.get(target);
+    if (!route) {
+      yield* this.streamWithInstance(target, messages, tools, signal, context);
+      return;
+    }
+
+    let lastError: unknown = new Error(`LLM route ${route.name} has no instances`);
+
+    for (const instanceId of route.instanceIds) {
+      for (let attempt = 1; attempt <= route.retry.maxAttempts; attempt++) {
+        let started = false;
+        try {
+          for await (const chunk of this.streamWithInstance(instanceId, messages, tools, signal, context)) {
+            started = true;
+            yield chunk;
+          }
+          return;
+        } catch (error) {
+          lastError = error;
+          if (started || !this.isRetryableError(error) || signal?.aborted) {
+            throw error;
+          }
+
+          if (attempt < route.retry.maxAttempts) {
+            const delay = this.getRetryDelay(route.retry, attempt);
+            logger.warn(`Retrying LLM stream on route ${route.name}`, { instanceId, attempt, delay });
+            await sleep(delay, signal);
+          }
+        }
+      }
+
+      logger.warn(`Falling back from instance ${instanceId} on route ${route.name}`);
+    }
+
+    throw lastError;
+  }
+
+  private async *streamWithInstance(
+    instanceId: string,
+    messages: ILLMMessage[],
+    tools?: ILLMToolDefinition[],
+    signal?: AbortSignal,
+    context?: ILLMCallContext
+  ): AsyncGenerator<ILLMStreamChunk> {
+    const instance = this.instances.get(instanceId);
+    if (!instance) {
+      throw new Error(`LLM instance not found: ${instanceId}`);
+    }
+
+    try {
+      // Update last used timestamp
+      instance.lastUsed = new Date();
+      this.instances.set(instanceId, instance);
+
+      let stream: AsyncGenerator<ILLMStreamChunk>;
+      switch (instance.config.provider) {
+        case LLMProvider.OPENAI:
+        case LLMProvider.OPENAI_COMPATIBLE:
+          stream = this.streamOpenAIResponse(instance, messages, tools, signal);
+          break;
+        case LLMProvider.ANTHROPIC:
+          stream = this.streamAnthropicResponse(instance, messages, tools, signal);
+          break;
+        case LLMProvider.GOOGLE:
+          stream = this.streamGoogleResponse(instance, messages, tools, signal);
+          break;
+        case LLMProvider.OLLAMA:
+          stream = this.streamOllamaResponse(instance, messages, tools, signal);
+          break;
+        case LLMProvider.MOCK:
+          stream = this.streamMockResponse(instance, messages, tools, signal);
+          break;
+        default:
+          throw new Error(`Unsupported provider: ${instance.config.provider}`);
+      }
+
+      for await (const chunk of stream) {
+        if (chunk.done && chunk.response) {
+          if (config.llm.mock.recordPath && instance.config.provider !== LLMProvider.MOCK) {
+            recordCassetteEntry(config.llm.mock.recordPath, messages, tools, chunk.response);
+          }
+          this.recordUsage(instance, chunk.response, context);
+        }
+        yield chunk;
+      }
+
+      logger.info(`Streamed response using instance: ${instanceId}`, {
+        provider: instance.config.provider,
+        messages: messages.length,
+      });
+    } catch (error) {
+      logger.error(`Error streaming response with instance ${instanceId}:`, error);
+      throw error;
+    }
+  }
+
+  // Records the call's usage and cost, and tells the caller which instance answered
+  private recordUsage(instance: ILLMInstance, response: ILLMResponse, context?: ILLMCallContext): void {
+    const usage = response.usage || { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+    const record = getUsageTracker().record({
+      ...context,
+      instanceId: instance.id,
+      provider: instance.config.provider,
+      model: instance.config.model,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      totalTokens: usage.totalTokens,
+    });
+
+    if (context) {
+      getQuotaManager().recordTokens(context, usage.totalTokens).catch(error => {
+        logger.error('Error recording LLM tokens against quotas:', error);
+      });
+    }
+
+    response.metadata = {
+      ...response.metadata,
+      instanceId: instance.id,
+      provider: instance.config.provider,
+      cost: record.cost,
+    };
+  }
+
+  private buildUserMessage(prompt: string, additionalContext?: string): ILLMMessage {
+    return {
+      role: 'user',
+      content: additionalContext ? `Context: ${additionalContext}\n\nUser: ${prompt}` : prompt,
+    };
+  }
+
+  private toOpenAIMessages(instance: ILLMInstance, messages: ILLMMessage[]): any[] {
+    const converted: any[] = instance.config.systemPrompt
+      ? [{ role: 'system', content: instance.config.systemPrompt }]
+      : [];
+
+    for (const message of messages) {
+      if (message.role === 'tool') {
+        converted.push({ role: 'tool', tool_call_id: message.toolCallId, content: message.content });
+      } else if (message.role === 'assistant' && message.toolCalls && message.toolCalls.length > 0) {
+        converted.push({
+          role: 'assistant',
+          content: message.content || null,
+          tool_calls: message.toolCalls.map(call => ({
+            id: call.id,
+            type: 'function',
+            function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+          })),
+        });
+      } else {
+        converted.push({ role: message.role, content: message.content });
+      }
+    }
+
+    return converted;
+  }
+
+  // Anthropic expects tool results inside user turns and strictly alternating roles,
+  // so consecutive messages that map to the same role are merged into one turn
+  private toAnthropicMessages(messages: ILLMMessage[]): any[] {
+    const converted: { role: 'user' | 'assistant'; content: any[] }[] = [];
+
+    for (const message of messages) {
+      const role = message.role === 'assistant' ? 'assistant' : 'user';
+      const blocks: any[] = [];
+
+      if (message.role === 'tool') {
+        blocks.push({ type: 'tool_result', tool_use_id: message.toolCallId, content: message.content });
+      } else {
+        if (message.content) {
+          blocks.push({ type: 'text', text: message.content });
+        }
+        for (const call of message.toolCalls || []) {
+          blocks.push({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments });
+        }
+      }
+
+      const previous = converted[converted.length - 1];
+      if (previous && previous.role === role) {
+        previous.content.push(...blocks);
+      } else {
+        converted.push({ role, content: blocks });
+      }
+    }
+
+    return converted;
+  }
+
+  // Gemini wants the responses to all function calls of a turn in one content, and no two
+  // contents in a row from the same role, so consecutive messages of a role are merged
+  private toGoogleContents(messages: ILLMMessage[]): any[] {
+    const converted: { role: 'user' | 'model' | 'function'; parts: any[] }[] = [];
+
+    for (const message of messages) {
+      let role: 'user' | 'model' | 'function';
+      const parts: any[] = [];
+
+      if (message.role === 'tool') {
+        role = 'function';
+        parts.push({ functionResponse: { name: message.name, response: { content: message.content } } });
+      } else {
+        role = message.role === 'assistant' ? 'model' : 'user';
+        if (message.content) {
+          parts.push({ text: message.content });
+        }
+        for (const call of message.toolCalls || []) {
+          parts.push({ functionCall: { name: call.name, args: call.arguments } });
+        }
+      }
+
+      const previous = converted[converted.length - 1];
+      if (previous && previous.role === role) {
+        previous.parts.push(...parts);
+      } else {
+        converted.push({ role, parts });
+      }
+    }
+
+    return converted;
+  }
+
+  private buildOpenAIRequest(
+    instance: ILLMInstance,
+    messages: ILLMMessage[],
+    tools?: ILLMToolDefinition[]
+  ): Record<string, any> {
+    return {
       model: instance.config.model,
-      messages: [{ role: 'user', content: prompt }],
+      messages: this.toOpenAIMessages(instance, messages),
       temperature: instance.config.temperature || 0.7,
       max_tokens: instance.config.maxTokens || 2000,
-    });
+      ...(tools && tools.length > 0 && {
+        tools: tools.map(tool => ({
+          type: 'function',
+          function: {
+            name: tool.name,
+            description: tool.description,
+            parameters: toJsonSchema(tool),
+          },
+        })),
+      }),
+    };
+  }
+
+  private async generateOpenAIResponse(
+    instance: ILLMInstance,
+    messages: ILLMMessage[],
+    tools?: ILLMToolDefinition[],
+    signal?: AbortSignal
+  ): Promise<ILLMResponse> {
+    const completion = await instance.client.chat.completions.create(
+      this.buildOpenAIRequest(instance, messages, tools),
+      { signal }
+    );
 
     const choice = completion.choices[0];
     if (!choice || !choice.message) {
       throw new Error('No response from OpenAI');
     }
 
+    const toolCalls: ILLMToolCall[] = (choice.message.tool_calls || []).map((call: any) => ({
+      id: call.id,
+      name: call.function.name,
+      ...this.parseToolArguments(call.function.arguments),
+    }));
+
     return {
       content: choice.message.content || '',
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
       usage: {
         inputTokens: completion.usage?.prompt_tokens || 0,
         outputTokens: completion.usage?.completion_tokens || 0,
@@ -252,16 +767,118 @@ export class LLMManager {
     };
   }
 
-  private async generateAnthropicResponse(instance: ILLMInstance, prompt: string): Promise<ILLMResponse> {
-    const message = await instance.client.messages.create({
+  private async *streamOpenAIResponse(
+    instance: ILLMInstance,
+    messages: ILLMMessage[],
+    tools?: ILLMToolDefinition[],
+    signal?: AbortSignal
+  ): AsyncGenerator<ILLMStreamChunk> {
+    const stream = await instance.client.chat.completions.create({
+      ...this.buildOpenAIRequest(instance, messages, tools),
+      stream: true,
+      ...((instance.config.provider === LLMProvider.OPENAI || instance.config.streamUsage) && {
+        stream_options: { include_usage: true },
+      }),
+    }, { signal });
+
+    let content = '';
+    let usage: any = null;
+    let finishReason: string | undefined;
+    // Tool call names and arguments arrive in fragments, keyed by their index
+    const partialToolCalls: { id: string; name: string; arguments: string }[] = [];
+
+    for await (const chunk of stream) {
+      const choice = chunk.choices?.[0];
+      if (chunk.usage) usage = chunk.usage;
+      if (!choice) continue;
+
+      if (choice.delta?.content) {
+        content += choice.delta.content;
+        yield { delta: choice.delta.content, done: false };
+      }
+
+      for (const call of choice.delta?.tool_calls || []) {
+        const partial = partialToolCalls[call.index] || { id: '', name: '', arguments: '' };
+        if (call.id) partial.id = call.id;
+        if (call.function?.name) partial.name += call.function.name;
+        if (call.function?.arguments) partial.arguments += call.function.arguments;
+        partialToolCalls[call.index] = partial;
+      }
+
+      if (choice.finish_reason) finishReason = choice.finish_reason;
+    }
+
+    const toolCalls: ILLMToolCall[] = partialToolCalls.filter(Boolean).map(call => ({
+      id: call.id,
+      name: call.name,
+      ...this.parseToolArguments(call.arguments),
+    }));
+
+    yield {
+      delta: '',
+      done: true,
+      response: {
+        content,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        usage: {
+          inputTokens: usage?.prompt_tokens || 0,
+          outputTokens: usage?.completion_tokens || 0,
+          totalTokens: usage?.total_tokens || 0,
+        },
+        metadata: {
+          model: instance.config.model,
+          finishReason,
+        },
+      },
+    };
+  }
+
+  private buildAnthropicRequest(
+    instance: ILLMInstance,
+    messages: ILLMMessage[],
+    tools?: ILLMToolDefinition[]
+  ): Record<string, any> {
+    return {
       model: instance.config.model,
       max_tokens: instance.config.maxTokens || 2000,
       temperature: instance.config.temperature || 0.7,
-      messages: [{ role: 'user', content: prompt }],
-    });
+      ...(instance.config.systemPrompt && { system: instance.config.systemPrompt }),
+      messages: this.toAnthropicMessages(messages),
+      ...(tools && tools.length > 0 && {
+        tools: tools.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          input_schema: toJsonSchema(tool),
+        })),
+      }),
+    };
+  }
+
+  private async generateAnthropicResponse(
+    instance: ILLMInstance,
+    messages: ILLMMessage[],
+    tools?: ILLMToolDefinition[],
+    signal?: AbortSignal
+  ): Promise<ILLMResponse> {
+    const message = await instance.client.messages.create(
+      this.buildAnthropicRequest(instance, messages, tools),
+      { signal }
+    );
+
+    const toolCalls: ILLMToolCall[] = message.content
+      .filter((block: any) => block.type === 'tool_use')
+      .map((block: any) => ({
+        id: block.id,
+        name: block.name,
+        arguments: block.input || {},
+      }));
 
     return {
-      content: message.content[0]?.text || '',
+      content: message.content
+        .filter((block: any) => block.type === 'text')
+        .map((block: any) => block.text)
+        .join(''),
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
       usage: {
         inputTokens: message.usage?.input_tokens || 0,
         outputTokens: message.usage?.output_tokens || 0,
@@ -274,24 +891,115 @@ export class LLMManager {
     };
   }
 
-  private async generateGoogleResponse(instance: ILLMInstance, prompt: string): Promise<ILLMResponse> {
-    const model = instance.client.getGenerativeModel({ model: instance.config.model });
-    
-    const generationConfig = {
-      temperature: instance.config.temperature || 0.7,
-      maxOutputTokens: instance.config.maxTokens || 2000,
+  private async *streamAnthropicResponse(
+    instance: ILLMInstance,
+    messages: ILLMMessage[],
+    tools?: ILLMToolDefinition[],
+    signal?: AbortSignal
+  ): AsyncGenerator<ILLMStreamChunk> {
+    const stream = await instance.client.messages.create({
+      ...this.buildAnthropicRequest(instance, messages, tools),
+      stream: true,
+    }, { signal });
+
+    let content = '';
+    let inputTokens = 0;
+    let outputTokens = 0;
+    let stopReason: string | undefined;
+    // tool_use input arrives as partial JSON, keyed by content block index
+    const partialToolCalls: Map<number, { id: string; name: string; arguments: string }> = new Map();
+
+    for await (const event of stream) {
+      switch (event.type) {
+        case 'message_start':
+          inputTokens = event.message.usage?.input_tokens || 0;
+          break;
+        case 'content_block_start':
+          if (event.content_block.type === 'tool_use') {
+            partialToolCalls.set(event.index, {
+              id: event.content_block.id,
+              name: event.content_block.name,
+              arguments: '',
+            });
+          }
+          break;
+        case 'content_block_delta':
+          if (event.delta.type === 'text_delta') {
+            content += event.delta.text;
+            yield { delta: event.delta.text, done: false };
+          } else if (event.delta.type === 'input_json_delta') {
+            const partial = partialToolCalls.get(event.index);
+            if (partial) partial.arguments += event.delta.partial_json;
+          }
+          break;
+        case 'message_delta':
+          outputTokens = event.usage?.output_tokens || outputTokens;
+          stopReason = event.delta?.stop_reason || stopReason;
+          break;
+      }
+    }
+
+    const toolCalls: ILLMToolCall[] = Array.from(partialToolCalls.values()).map(call => ({
+      id: call.id,
+      name: call.name,
+      ...this.parseToolArguments(call.arguments),
+    }));
+
+    yield {
+      delta: '',
+      done: true,
+      response: {
+        content,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        usage: {
+          inputTokens,
+          outputTokens,
+          totalTokens: inputTokens + outputTokens,
+        },
+        metadata: {
+          model: instance.config.model,
+          stopReason,
+        },
+      },
     };
+  }
 
-    const result = await model.generateContent({
-      contents: [{ role: 'user', parts: [{ text: prompt }] }],
-      generationConfig,
+  private getGoogleModel(instance: ILLMInstance, tools?: ILLMToolDefinition[]): any {
+    return instance.client.getGenerativeModel({
+      model: instance.config.model,
+      ...(instance.config.systemPrompt && { systemInstruction: instance.config.systemPrompt }),
+      ...(tools && tools.length > 0 && {
+        tools: [{
+          functionDeclarations: tools.map(tool => {
+            const parameters = toGeminiParameters(tool);
+            return { name: tool.name, description: tool.description, ...(parameters && { parameters }) };
+          }),
+        }],
+      }),
     });
+  }
 
-    const response = result.response;
-    const text = response.text();
+  private buildGoogleRequest(instance: ILLMInstance, messages: ILLMMessage[]): Record<string, any> {
+    return {
+      contents: this.toGoogleContents(messages),
+      generationConfig: {
+        temperature: instance.config.temperature || 0.7,
+        maxOutputTokens: instance.config.maxTokens || 2000,
+      },
+    };
+  }
+
+  private toGoogleResponse(instance: ILLMInstance, response: any, text: string): ILLMResponse {
+    // Gemini does not assign ids to function calls, so we generate our own
+    const toolCalls: ILLMToolCall[] = (response.functionCalls() || []).map((call: any) => ({
+      id: uuidv4(),
+      name: call.name,
+      arguments: call.args || {},
+    }));
 
     return {
       content: text,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
       usage: {
         inputTokens: response.usageMetadata?.promptTokenCount || 0,
         outputTokens: response.usageMetadata?.candidatesTokenCount || 0,
@@ -304,6 +1012,241 @@ export class LLMManager {
     };
   }
 
+  private async generateGoogleResponse(
+    instance: ILLMInstance,
+    messages: ILLMMessage[],
+    tools?: ILLMToolDefinition[],
+    signal?: AbortSignal
+  ): Promise<ILLMResponse> {
+    // The Gemini SDK does not accept a signal, so the request is abandoned instead
+    const model = this.getGoogleModel(instance, tools);
+    const result = await abortable<any>(model.generateContent(this.buildGoogleRequest(instance, messages)), signal);
+
+    const response = result.response;
+    return this.toGoogleResponse(instance, response, response.text());
+  }
+
+  private async *streamGoogleResponse(
+    instance: ILLMInstance,
+    messages: ILLMMessage[],
+    tools?: ILLMToolDefinition[],
+    signal?: AbortSignal
+  ): AsyncGenerator<ILLMStreamChunk> {
+    const model = this.getGoogleModel(instance, tools);
+    // As with generateContent, the stream is abandoned rather than cancelled
+    const result = await abortable<any>(model.generateContentStream(this.buildGoogleRequest(instance, messages)), signal);
+
+    let content = '';
+    for await (const chunk of result.stream) {
+      if (signal?.aborted) {
+        throw toAbortError(signal);
+      }
+      const delta = chunk.text();
+      if (delta) {
+        content += delta;
+        yield { delta, done: false };
+      }
+    }
+
+    // The aggregated response carries the function calls and usage metadata
+    yield {
+      delta: '',
+      done: true,
+      response: this.toGoogleResponse(instance, await result.response, content),
+    };
+  }
+
+  private toOllamaMessages(instance: ILLMInstance, messages: ILLMMessage[]): any[] {
+    const converted: any[] = instance.config.systemPrompt
+      ? [{ role: 'system', content: instance.config.systemPrompt }]
+      : [];
+
+    for (const message of messages) {
+      if (message.role === 'tool') {
+        converted.push({ role: 'tool', tool_name: message.name, content: message.content });
+      } else if (message.role === 'assistant' && message.toolCalls && message.toolCalls.length > 0) {
+        converted.push({
+          role: 'assistant',
+          content: message.content,
+          tool_calls: message.toolCalls.map(call => ({
+            function: { name: call.name, arguments: call.arguments },
+          })),
+        });
+      } else {
+        converted.push({ role: message.role, content: message.content });
+      }
+    }
+
+    return converted;
+  }
+
+  private buildOllamaRequest(
+    instance: ILLMInstance,
+    messages: ILLMMessage[],
+    tools: ILLMToolDefinition[] | undefined,
+    stream: boolean
+  ): Record<string, any> {
+    return {
+      model: instance.config.model,
+      messages: this.toOllamaMessages(instance, messages),
+      stream,
+      options: {
+        temperature: instance.config.temperature || 0.7,
+        num_predict: instance.config.maxTokens || 2000,
+      },
+      ...(tools && tools.length > 0 && {
+        tools: tools.map(tool => ({
+          type: 'function',
+          function: {
+            name: tool.name,
+            description: tool.description,
+            parameters: toJsonSchema(tool),
+          },
+        })),
+      }),
+    };
+  }
+
+  // Ollama reports the final message and token counts on the last (done) object
+  private toOllamaResponse(instance: ILLMInstance, data: any, content: string, rawToolCalls: any[]): ILLMResponse {
+    // Ollama does not assign ids to tool calls, so we generate our own
+    const toolCalls: ILLMToolCall[] = rawToolCalls.map((call: any) => ({
+      id: uuidv4(),
+      name: call.function?.name,
+      ...(typeof call.function?.arguments === 'string'
+        ? this.parseToolArguments(call.function.arguments)
+        : { arguments: call.function?.arguments || {} }),
+    }));
+
+    const inputTokens = data.prompt_eval_count || 0;
+    const outputTokens = data.eval_count || 0;
+
+    return {
+      content,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      usage: {
+        inputTokens,
+        outputTokens,
+        totalTokens: inputTokens + outputTokens,
+      },
+      metadata: {
+        model: instance.config.model,
+        finishReason: data.done_reason,
+      },
+    };
+  }
+
+  private async generateOllamaResponse(
+    instance: ILLMInstance,
+    messages: ILLMMessage[],
+    tools?: ILLMToolDefinition[],
+    signal?: AbortSignal
+  ): Promise<ILLMResponse> {
+    const { data } = await instance.client.post(
+      '/api/chat',
+      this.buildOllamaRequest(instance, messages, tools, false),
+      { signal }
+    );
+
+    if (!data || !data.message) {
+      throw new Error('No response from Ollama');
+    }
+
+    return this.toOllamaResponse(instance, data, data.message.content || '', data.message.tool_calls || []);
+  }
+
+  private async *streamOllamaResponse(
+    instance: ILLMInstance,
+    messages: ILLMMessage[],
+    tools?: ILLMToolDefinition[],
+    signal?: AbortSignal
+  ): AsyncGenerator<ILLMStreamChunk> {
+    const response = await instance.client.post(
+      '/api/chat',
+      this.buildOllamaRequest(instance, messages, tools, true),
+      { responseType: 'stream', signal }
+    );
+
+    let content = '';
+    let buffer = '';
+    let last: any = {};
+    const toolCalls: any[] = [];
+
+    const parseLine = (line: string): string | undefined => {
+      const chunk = JSON.parse(line);
+      if (chunk.error) {
+        throw new Error(`Ollama error: ${chunk.error}`);
+      }
+      toolCalls.push(...(chunk.message?.tool_calls || []));
+      last = chunk;
+      return chunk.message?.content || undefined;
+    };
+
+    // The body is newline-delimited JSON, one object per chunk. The last object may
+    // arrive without a trailing newline, so it is parsed once the body ends.
+    for await (const data of response.data) {
+      buffer += data.toString();
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        const delta = parseLine(line);
+        if (delta) {
+          content += delta;
+          yield { delta, done: false };
+        }
+      }
+    }
+
+    if (buffer.trim()) {
+      const delta = parseLine(buffer);
+      if (delta) {
+        content += delta;
+        yield { delta, done: false };
+      }
+    }
+
+    yield {
+      delta: '',
+      done: true,
+      response: this.toOllamaResponse(instance, last, content, toolCalls),
+    };
+  }
+
+  private async *streamMockResponse(
+    instance: ILLMInstance,
+    messages: ILLMMessage[],
+    tools?: ILLMToolDefinition[],
+    signal?: AbortSignal
+  ): AsyncGenerator<ILLMStreamChunk> {
+    const response: ILLMResponse = instance.client.respond(messages, tools, instance.config.model);
+
+    // Word by word, so consumers see several deltas just like with a real provider
+    for (const delta of response.content.match(/\S+\s*/g) || []) {
+      if (signal?.aborted) {
+        throw toAbortError(signal);
+      }
+      yield { delta, done: false };
+    }
+
+    yield { delta: '', done: true, response };
+  }
+
+  // Malformed arguments are reported on the call, so the model is told instead of the
+  // function running without arguments
+  private parseToolArguments(rawArguments: string): Pick<ILLMToolCall, 'arguments' | 'error'> {
+    try {
+      return { arguments: rawArguments ? JSON.parse(rawArguments) : {} };
+    } catch (error) {
+      logger.warn('Failed to parse tool call arguments', { rawArguments });
+      return {
+        arguments: {},
+        error: `The arguments are not valid JSON (${error instanceof Error ? error.message : error}): ${rawArguments}`,
+      };
+    }
+  }
+
   public async testInstance(instanceId: string): Promise<boolean> {
     try {
       const response = await this.generateResponse(instanceId, 'Hello, please respond with "Test successful"');
@@ -335,15 +1278,51 @@ export class LLMManager {
     return stats;
   }
 
-  public getHealthStatus(): IHealthStatus {
+  // Self-hosted servers are asked for their models. Cloud providers are not probed, since
+  // a probe there uses up rate limits and their outages show up as failed calls anyway.
+  private async probeInstance(instance: ILLMInstance): Promise<IHealthCheck> {
+    const name = instance.id;
+    const target = `${instance.config.provider}/${instance.config.model}`;
+
+    try {
+      switch (instance.config.provider) {
+        case LLMProvider.OLLAMA:
+          await instance.client.get('/api/tags', { timeout: HEALTH_PROBE_TIMEOUT_MS });
+          break;
+        case LLMProvider.OPENAI_COMPATIBLE:
+          await instance.client.models.list({ timeout: HEALTH_PROBE_TIMEOUT_MS, maxRetries: 0 });
+          break;
+        case LLMProvider.MOCK:
+          break;
+        default:
+          return { name, status: 'unknown', details: `${target}, not probed` };
+      }
+      return { name, status: 'healthy', details: target };
+    } catch (error) {
+      return { name, status: 'unhealthy', details: `${target}, unreachable: ${error instanceof Error ? error.message : 'Unknown error'}` };
+    }
+  }
+
+  // Unhealthy when a route has no instance left that could answer
+  public async getHealthStatus(): Promise<IHealthStatus> {
     try {
       const stats = this.getInstanceStats();
-      const healthyInstances = Array.from(this.instances.values()).length;
-      
+      const checks = await Promise.all(Array.from(this.instances.values()).map(instance => this.probeInstance(instance)));
+      const unreachable = new Set(checks.filter(check => check.status === 'unhealthy').map(check => check.name));
+      const failedRoutes = this.getAllRoutes()
+        .filter(route => route.instanceIds.every(id => unreachable.has(id)))
+        .map(route => route.name);
+
       return {
         module: 'LLMManager',
-        status: healthyInstances > 0 ? 'healthy' : 'unhealthy',
-        details: `Total: ${stats.totalInstances}, Recently used: ${stats.recentlyUsed}`,
+        status: checks.length > 0 && unreachable.size < checks.length && failedRoutes.length === 0 ? 'healthy' : 'unhealthy',
+        details: [
+          `Total: ${stats.totalInstances} (${Object.entries(stats.byProvider).map(([provider, count]) => `${provider}: ${count}`).join(', ')})`,
+          `Unreachable: ${unreachable.size}`,
+          `Recently used: ${stats.recentlyUsed}`,
+          ...(failedRoutes.length > 0 ? [`Routes without a reachable instance: ${failedRoutes.join(', ')}`] : []),
+        ].join(', '),
+        checks,
         timestamp: new Date(),
       };
     } catch (error) {
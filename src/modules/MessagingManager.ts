@@ -3,13 +3,20 @@ import Joi from 'joi';
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from '../utils/logger.js';
 import { config } from '../config/index.js';
+import { MessageInProgressError } from './IdempotencyManager.js';
 import {
   IIncomingMessage,
   IOutgoingMessage,
   IMessageAcknowledgment,
   IHealthStatus,
+  IDeadLetterMessage,
+  DeadLetterReason,
+  IMessageRoute,
+  MessageHandler,
 } from '../types/index.js';
 
+const RETRY_COUNT_HEADER = 'x-retry-count';
+
 // Helper to get RabbitMQ URL from env or config
 function getRabbitMQUrl() {
   // Prefer env, fallback to config
@@ -21,15 +28,19 @@ export class MessagingManager {
   private channel: amqp.Channel | null = null;
   private confirmChannel: amqp.ConfirmChannel | null = null;
   private consumeChannel: amqp.Channel | null = null;
-  private messageHandlers: Map<string, (message: IIncomingMessage) => Promise<void>> = new Map();
+  private messageHandlers: Map<string, MessageHandler> = new Map();
   private isConnected: boolean = false;
   private connectionPromise: Promise<void> | null = null;
   private incomingQueue: string;
   private outgoingQueue: string;
+  private deadLetterQueue: string;
+  private retryQueue: string;
   private incomingExchange: string = 'agent_incoming_exchange';
   private outgoingExchange: string = 'agent_outgoing_exchange';
+  private deadLetterExchange: string = 'agent_dead_letter_exchange';
   private incomingRoutingKey: string = 'incoming_messages';
   private outgoingRoutingKey: string = 'outgoing_messages';
+  private deadLetterRoutingKey: string = 'dead_letter_messages';
   
   // Message schemas for validation
   private incomingMessageSchema = Joi.object({
@@ -37,6 +48,8 @@ export class MessagingManager {
     content: Joi.string().required(),
     metadata: Joi.object().optional(),
     timestamp: Joi.date().required(),
+    replyTo: Joi.string().optional(),
+    correlationId: Joi.string().optional(),
   });
 
   private outgoingMessageSchema = Joi.object({
@@ -49,6 +62,8 @@ export class MessagingManager {
   constructor() {
     this.incomingQueue = config.rabbitmq.queues.incoming;
     this.outgoingQueue = config.rabbitmq.queues.outgoing;
+    this.deadLetterQueue = config.rabbitmq.queues.deadLetter;
+    this.retryQueue = config.rabbitmq.queues.retry;
     this.connectionPromise = this.connect();
     this.connectionPromise.catch(error => {
       logger.error('Failed to connect to RabbitMQ:', error);
@@ -74,6 +89,7 @@ export class MessagingManager {
       // Create exchanges
       await this.channel.assertExchange(this.incomingExchange, 'direct', { durable: true });
       await this.channel.assertExchange(this.outgoingExchange, 'direct', { durable: true });
+      await this.channel.assertExchange(this.deadLetterExchange, 'direct', { durable: true });
       logger.info('Exchanges created');
 
       // Create and bind queues
@@ -82,6 +98,23 @@ export class MessagingManager {
       
       await this.channel.bindQueue(this.incomingQueue, this.incomingExchange, this.incomingRoutingKey);
       await this.channel.bindQueue(this.outgoingQueue, this.outgoingExchange, this.outgoingRoutingKey);
+
+      await this.channel.assertQueue(this.deadLetterQueue, { durable: true });
+      await this.channel.bindQueue(this.deadLetterQueue, this.deadLetterExchange, this.deadLetterRoutingKey);
+
+      // Failed messages wait in a delay queue until its TTL expires, then RabbitMQ
+      // dead-letters them back onto the incoming exchange. There is one queue per backoff
+      // step: messages only expire from the head of a queue, so a long delay in a shared
+      // queue would hold back every shorter one queued behind it. The first queue always
+      // exists, since copies of a message still in progress wait there.
+      for (let attempt = 1; attempt < Math.max(config.rabbitmq.maxAttempts, 2); attempt++) {
+        await this.channel.assertQueue(this.getRetryQueue(attempt), {
+          durable: true,
+          messageTtl: this.getRetryDelay(attempt),
+          deadLetterExchange: this.incomingExchange,
+          deadLetterRoutingKey: this.incomingRoutingKey,
+        });
+      }
       logger.info('Queues created and bound');
 
       this.connection.on('error', (error: Error) => {
@@ -234,7 +267,7 @@ export class MessagingManager {
                 error: parseError,
                 content 
               });
-              this.consumeChannel?.nack(msg, false, false);
+              await this.deadLetter(msg, 'parse_error', parseError);
               return;
             }
 
@@ -242,7 +275,7 @@ export class MessagingManager {
             const validatedMessage = this.validateIncomingMessage(message);
             if (!validatedMessage) {
               logger.error('Invalid message format', { message });
-              this.consumeChannel?.nack(msg, false, false);
+              await this.deadLetter(msg, 'validation_error');
               return;
             }
 
@@ -253,21 +286,26 @@ export class MessagingManager {
               return;
             }
 
+            // AMQP properties take precedence over the same fields in the body
+            validatedMessage.replyTo = msg.properties.replyTo || validatedMessage.replyTo;
+            validatedMessage.correlationId = msg.properties.correlationId || validatedMessage.correlationId;
+
             const handler = this.messageHandlers.get('orchestration');
             if (!handler) {
               logger.error('No message handler found');
-              this.consumeChannel?.nack(msg, false, false);
+              await this.deadLetter(msg, 'no_handler');
               return;
             }
 
-            await handler(validatedMessage);
+            const attempt = this.getRetryCount(msg) + 1;
+            await handler(validatedMessage, { attempt, lastAttempt: attempt >= config.rabbitmq.maxAttempts });
             logger.info('Message processed successfully', { messageId });
             
             this.consumeChannel?.ack(msg);
             logger.info('Message acknowledged', { messageId });
           } catch (error) {
             logger.error('Error processing message:', error);
-            this.consumeChannel?.nack(msg, false, true); // Requeue on error
+            await this.retryOrDeadLetter(msg, error);
           }
         },
         {
@@ -283,6 +321,221 @@ export class MessagingManager {
     }
   }
 
+  // The delay before redelivery doubles with every attempt
+  private getRetryDelay(attempt: number): number {
+    return config.rabbitmq.retryDelayMs * Math.pow(2, attempt - 1);
+  }
+
+  // Named after the delay, so changing RABBITMQ_RETRY_DELAY_MS declares new queues
+  // instead of conflicting with the TTL of existing ones
+  private getRetryQueue(attempt: number): string {
+    return `${this.retryQueue}_${this.getRetryDelay(attempt)}ms`;
+  }
+
+  // Moves a failed message to the delay queue of its attempt, or to the dead-letter
+  // queue once it has used up its attempts. Requeueing in place would block the
+  // queue with prefetch(1) when a message keeps failing.
+  // A copy of a message that is still being processed has not failed: it waits
+  // out the shortest delay and comes back without using up an attempt.
+  private async retryOrDeadLetter(msg: ConsumeMessage, error: unknown): Promise<void> {
+    const inProgress = error instanceof MessageInProgressError;
+    const attempts = this.getRetryCount(msg) + (inProgress ? 0 : 1);
+
+    if (!inProgress && attempts >= config.rabbitmq.maxAttempts) {
+      await this.deadLetter(msg, 'max_attempts', error);
+      return;
+    }
+
+    const delayStep = inProgress ? 1 : attempts;
+    const delay = this.getRetryDelay(delayStep);
+
+    try {
+      await this.publishConfirmed('', this.getRetryQueue(delayStep), msg.content, {
+        ...msg.properties,
+        expiration: undefined,
+        persistent: true,
+        headers: { ...msg.properties.headers, [RETRY_COUNT_HEADER]: attempts },
+      });
+      this.consumeChannel?.ack(msg);
+      logger.warn(inProgress ? 'Message in progress elsewhere; checking again later' : 'Message scheduled for redelivery', {
+        messageId: msg.properties.messageId,
+        attempts,
+        delay,
+      });
+    } catch (publishError) {
+      // Without a copy in the retry queue the original has to stay in place
+      logger.error('Failed to schedule message for redelivery:', publishError);
+      this.consumeChannel?.nack(msg, false, true);
+    }
+  }
+
+  private async deadLetter(msg: ConsumeMessage, reason: DeadLetterReason, error?: unknown): Promise<void> {
+    try {
+      await this.publishConfirmed(this.deadLetterExchange, this.deadLetterRoutingKey, msg.content, {
+        ...msg.properties,
+        expiration: undefined,
+        persistent: true,
+        headers: {
+          ...msg.properties.headers,
+          [RETRY_COUNT_HEADER]: this.getRetryCount(msg) + (reason === 'max_attempts' ? 1 : 0),
+          'x-dead-letter-reason': reason,
+          'x-dead-letter-error': error ? (error instanceof Error ? error.message : String(error)) : undefined,
+          'x-dead-lettered-at': new Date().toISOString(),
+        },
+      });
+      this.consumeChannel?.ack(msg);
+      logger.warn('Message moved to dead-letter queue', { messageId: msg.properties.messageId, reason });
+    } catch (publishError) {
+      logger.error('Failed to dead-letter message, dropping it:', publishError);
+      this.consumeChannel?.nack(msg, false, false);
+    }
+  }
+
+  private getRetryCount(msg: amqp.Message): number {
+    const count = Number(msg.properties.headers?.[RETRY_COUNT_HEADER]);
+    return Number.isFinite(count) && count > 0 ? count : 0;
+  }
+
+  // The publish channel is a confirm channel; waiting for the broker's confirm
+  // makes sure the copy exists before the original message is acked
+  private async publishConfirmed(
+    exchange: string,
+    routingKey: string,
+    content: Buffer,
+    options: Options.Publish
+  ): Promise<void> {
+    const channel = this.channel as amqp.ConfirmChannel | null;
+    if (!channel) {
+      throw new Error('Channel not available');
+    }
+
+    channel.publish(exchange, routingKey, content, options);
+    await channel.waitForConfirms();
+  }
+
+  private toDeadLetterMessage(msg: amqp.GetMessage): IDeadLetterMessage {
+    const headers = msg.properties.headers || {};
+    const raw = msg.content.toString('utf8');
+
+    let content: any = raw;
+    try {
+      content = JSON.parse(raw);
+    } catch {
+      // Unparseable messages are shown as they were received
+    }
+
+    // Publishers that do not set the AMQP messageId are matched by the id in the body,
+    // which is also the key replayDeadLetterMessages selects by
+    const bodyId = typeof content?.id === 'string' && content.id ? content.id : undefined;
+
+    return {
+      messageId: msg.properties.messageId || bodyId || 'unknown',
+      reason: headers['x-dead-letter-reason'] || 'max_attempts',
+      error: headers['x-dead-letter-error'],
+      attempts: this.getRetryCount(msg),
+      deadLetteredAt: headers['x-dead-lettered-at'],
+      content,
+    };
+  }
+
+  // Reads up to `limit` dead-lettered messages on a short-lived channel. Messages are
+  // only removed when `take` returns true; closing the channel requeues the rest.
+  // Reading ends early once `done` returns true.
+  private async readDeadLetters(
+    limit: number,
+    take: (message: IDeadLetterMessage, msg: amqp.GetMessage, channel: amqp.Channel) => Promise<boolean>,
+    done: () => boolean = () => false
+  ): Promise<void> {
+    await this.waitForConnection();
+    if (!this.connection) {
+      throw new Error('RabbitMQ connection not established');
+    }
+
+    const channel: amqp.Channel = await this.connection.createChannel();
+    try {
+      for (let count = 0; count < limit && !done(); count++) {
+        const msg = await channel.get(this.deadLetterQueue, { noAck: false });
+        if (!msg) {
+          break;
+        }
+        if (await take(this.toDeadLetterMessage(msg), msg, channel)) {
+          channel.ack(msg);
+        }
+      }
+    } finally {
+      await channel.close();
+    }
+  }
+
+  public async getDeadLetterMessages(limit: number = 50): Promise<{ total: number; messages: IDeadLetterMessage[] }> {
+    await this.waitForConnection();
+    if (!this.channel) {
+      throw new Error('Channel not available');
+    }
+
+    const { messageCount } = await this.channel.checkQueue(this.deadLetterQueue);
+    const messages: IDeadLetterMessage[] = [];
+    await this.readDeadLetters(limit, async message => {
+      messages.push(message);
+      return false;
+    });
+
+    return { total: messageCount, messages };
+  }
+
+  // Publishes dead-lettered messages back to the incoming exchange with a fresh retry count.
+  // Without messageIds every message (up to limit) is replayed. Selected messages may be
+  // anywhere in the queue, so the whole queue is searched for them.
+  public async replayDeadLetterMessages(messageIds?: string[], limit: number = 100): Promise<string[]> {
+    const replayed: string[] = [];
+    const remaining = new Set(messageIds);
+
+    let scan = limit;
+    if (messageIds) {
+      await this.waitForConnection();
+      if (!this.channel) {
+        throw new Error('Channel not available');
+      }
+      scan = (await this.channel.checkQueue(this.deadLetterQueue)).messageCount;
+    }
+
+    await this.readDeadLetters(scan, async (message, msg) => {
+      if (messageIds && !remaining.delete(message.messageId)) {
+        return false;
+      }
+
+      const {
+        [RETRY_COUNT_HEADER]: _retryCount,
+        'x-dead-letter-reason': _reason,
+        'x-dead-letter-error': _error,
+        'x-dead-lettered-at': _deadLetteredAt,
+        ...headers
+      } = msg.properties.headers || {};
+
+      await this.publishConfirmed(this.incomingExchange, this.incomingRoutingKey, msg.content, {
+        ...msg.properties,
+        persistent: true,
+        headers,
+      });
+      replayed.push(message.messageId);
+      return true;
+    }, () => !!messageIds && (remaining.size === 0 || replayed.length >= limit));
+
+    logger.info('Replayed dead-lettered messages', { count: replayed.length });
+    return replayed;
+  }
+
+  public async purgeDeadLetterMessages(): Promise<number> {
+    await this.waitForConnection();
+    if (!this.channel) {
+      throw new Error('Channel not available');
+    }
+
+    const { messageCount } = await this.channel.purgeQueue(this.deadLetterQueue);
+    logger.info('Purged dead-letter queue', { count: messageCount });
+    return messageCount;
+  }
+
   private validateIncomingMessage(data: any): IIncomingMessage | null {
     try {
       const { error, value } = this.incomingMessageSchema.validate(data);
@@ -315,12 +568,39 @@ export class MessagingManager {
     }
   }
 
-  public async sendMessage(message: IOutgoingMessage): Promise<void> {
+  // Replies go to the requester's replyTo queue when it asked for one. Otherwise they are
+  // published on the outgoing exchange, under a routing key that can carry the tenant or
+  // channel, so each upstream service can bind a queue that receives only its own replies.
+  public getReplyRoute(message: IIncomingMessage): IMessageRoute {
+    return {
+      replyTo: message.replyTo,
+      correlationId: message.correlationId || message.id,
+      routingKey: this.resolveRoutingKey(message.metadata),
+    };
+  }
+
+  private resolveRoutingKey(metadata?: Record<string, any>): string {
+    if (typeof metadata?.replyRoutingKey === 'string' && metadata.replyRoutingKey) {
+      return metadata.replyRoutingKey;
+    }
+
+    const parts = config.rabbitmq.routeBy
+      .map(field => metadata?.[field])
+      .filter(value => value !== undefined && value !== null && value !== '')
+      .map(value => String(value));
+
+    return parts.length > 0
+      ? [this.outgoingRoutingKey, ...parts].join('.')
+      : this.outgoingRoutingKey;
+  }
+
+  public async sendMessage(message: IOutgoingMessage, route?: IMessageRoute): Promise<void> {
     try {
       logger.info('Preparing to send message', { 
         messageId: message.id,
         contentLength: message.content.length,
-        metadata: message.metadata
+        metadata: message.metadata,
+        route,
       });
       
       await this.waitForConnection();
@@ -335,6 +615,10 @@ export class MessagingManager {
       }
 
       const content = Buffer.from(JSON.stringify(validatedMessage), 'utf8');
+
+      // replyTo names a queue, which the default exchange routes to directly
+      const exchange = route?.replyTo ? '' : this.outgoingExchange;
+      const routingKey = route?.replyTo || route?.routingKey || this.outgoingRoutingKey;
       
       return new Promise<void>((resolve, reject) => {
         const timeout = setTimeout(() => {
@@ -343,11 +627,12 @@ export class MessagingManager {
 
         try {
           this.channel?.publish(
-            this.outgoingExchange,
-            this.outgoingRoutingKey,
+            exchange,
+            routingKey,
             content,
             {
               messageId: message.id,
+              correlationId: route?.correlationId,
               persistent: true,
               contentType: 'application/json',
               contentEncoding: 'utf8',
@@ -357,7 +642,8 @@ export class MessagingManager {
           clearTimeout(timeout);
           logger.info('Message published successfully', { 
             messageId: message.id,
-            exchange: this.outgoingExchange
+            exchange: exchange || '(default)',
+            routingKey
           });
           resolve();
         } catch (error) {
@@ -372,7 +658,36 @@ export class MessagingManager {
     }
   }
 
-  public registerMessageHandler(name: string, handler: (message: IIncomingMessage) => Promise<void>): void {
+  // Publishes a message for processing, exactly as an upstream service would
+  public async publishIncomingMessage(message: IIncomingMessage): Promise<void> {
+    await this.waitForConnection();
+
+    const validatedMessage = this.validateIncomingMessage(message);
+    if (!validatedMessage) {
+      throw new Error('Invalid message format');
+    }
+
+    await this.publishConfirmed(
+      this.incomingExchange,
+      this.incomingRoutingKey,
+      Buffer.from(JSON.stringify(validatedMessage), 'utf8'),
+      {
+        messageId: message.id,
+        correlationId: message.correlationId,
+        replyTo: message.replyTo,
+        persistent: true,
+        contentType: 'application/json',
+        contentEncoding: 'utf8',
+      }
+    );
+
+    logger.info('Incoming message published', {
+      messageId: message.id,
+      exchange: this.incomingExchange
+    });
+  }
+
+  public registerMessageHandler(name: string, handler: MessageHandler): void {
     this.messageHandlers.set(name, handler);
     logger.info(`Registered message handler: ${name}`);
   }
@@ -0,0 +1,439 @@
+import { logger } from '../utils/logger.js';
+import { config } from '../config/index.js';
+import { getRedisClient } from '../utils/redis.js';
+import { IQuotaLimits, IQuotaStore, IQuotaSubject, QuotaScope } from '../types/index.js';
+
+export type QuotaLimitName = keyof IQuotaLimits;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_SECONDS = 24 * 60 * 60;
+// A job slot frees up whenever one of the subject's jobs finishes, which cannot be predicted
+const JOB_SLOT_RETRY_AFTER_SECONDS = 30;
+
+const LIMIT_DESCRIPTIONS: Record<QuotaLimitName, string> = {
+  requestsPerMinute: 'requests per minute',
+  tokensPerDay: 'LLM tokens per day',
+  concurrentJobs: 'concurrent jobs',
+};
+
+// Checks the subject's job count and adds the job in one step, so parallel
+// requests cannot both take the last slot
+const ACQUIRE_JOB_SLOT_SCRIPT = `
+local limit = tonumber(ARGV[2])
+if limit > 0 and redis.call('SCARD', KEYS[1]) >= limit then return 0 end
+redis.call('SADD', KEYS[1], ARGV[1])
+return 1
+`;
+
+// Admits a request only if every scope's window has room, and only then counts it in
+// all of them, so rejected requests do not use up the window
+const ADMIT_REQUEST_SCRIPT = `
+for i, key in ipairs(KEYS) do
+  if tonumber(redis.call('GET', key) or '0') >= tonumber(ARGV[i + 1]) then return i - 1 end
+end
+for _, key in ipairs(KEYS) do
+  redis.call('INCR', key)
+  redis.call('PEXPIRE', key, ARGV[1])
+end
+return -1
+`;
+
+export class QuotaExceededError extends Error {
+  public readonly scope: QuotaScope;
+  public readonly subjectId: string;
+  public readonly limit: QuotaLimitName;
+  public readonly max: number;
+  public readonly retryAfterSeconds: number;
+
+  constructor(scope: QuotaScope, subjectId: string, limit: QuotaLimitName, max: number, retryAfterSeconds: number) {
+    super(`Quota exceeded for ${scope} ${subjectId}: at most ${max} ${LIMIT_DESCRIPTIONS[limit]}. Try again in ${retryAfterSeconds} seconds.`);
+    this.name = 'QuotaExceededError';
+    this.scope = scope;
+    this.subjectId = subjectId;
+    this.limit = limit;
+    this.max = max;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+
+  public toMetadata(): Record<string, any> {
+    return {
+      code: 'quota_exceeded',
+      quotaScope: this.scope,
+      quotaLimit: this.limit,
+      quotaMax: this.max,
+      retryAfter: this.retryAfterSeconds,
+      retryAt: new Date(Date.now() + this.retryAfterSeconds * 1000).toISOString(),
+    };
+  }
+}
+
+export class InMemoryQuotaStore implements IQuotaStore {
+  private limits: Map<string, Partial<IQuotaLimits>> = new Map();
+  private counters: Map<string, { count: number; expiresAt: number }> = new Map();
+  private slots: Map<string, Set<string>> = new Map();
+  private slotOwners: Map<string, string[]> = new Map();
+
+  private increment(key: string, amount: number, ttlMs: number): void {
+    this.counters.set(key, { count: this.getCounter(key) + amount, expiresAt: Date.now() + ttlMs });
+  }
+
+  private getCounter(key: string): number {
+    const counter = this.counters.get(key);
+    if (counter && counter.expiresAt <= Date.now()) {
+      this.counters.delete(key);
+      return 0;
+    }
+    return counter?.count || 0;
+  }
+
+  public async getLimits(key: string): Promise<Partial<IQuotaLimits>> {
+    return { ...this.limits.get(key) };
+  }
+
+  public async setLimits(key: string, limits: Partial<IQuotaLimits>): Promise<void> {
+    this.limits.set(key, { ...this.limits.get(key), ...limits });
+  }
+
+  public async deleteLimits(key: string): Promise<void> {
+    this.limits.delete(key);
+  }
+
+  public async getCount(key: string): Promise<number> {
+    return this.getCounter(key);
+  }
+
+  public async admitRequest(windows: { key: string; limit: number }[], ttlMs: number): Promise<number> {
+    const full = windows.findIndex(window => this.getCounter(window.key) >= window.limit);
+    if (full === -1) {
+      windows.forEach(window => this.increment(window.key, 1, ttlMs));
+    }
+    return full;
+  }
+
+  public async addTokens(keys: string[], tokens: number, ttlSeconds: number): Promise<void> {
+    keys.forEach(key => this.increment(key, tokens, ttlSeconds * 1000));
+  }
+
+  public async acquireSlot(key: string, jobId: string, limit: number): Promise<boolean> {
+    const slots = this.slots.get(key) || new Set<string>();
+    if (limit > 0 && slots.size >= limit) {
+      return false;
+    }
+    this.slots.set(key, slots.add(jobId));
+    return true;
+  }
+
+  public async getSlots(key: string): Promise<string[]> {
+    return Array.from(this.slots.get(key) || []);
+  }
+
+  public async setSlotOwner(jobId: string, keys: string[]): Promise<void> {
+    this.slotOwners.set(jobId, keys);
+  }
+
+  public async releaseSlots(jobId: string): Promise<void> {
+    for (const key of this.slotOwners.get(jobId) || []) {
+      this.slots.get(key)?.delete(jobId);
+    }
+    this.slotOwners.delete(jobId);
+  }
+
+  public async removeSlot(key: string, jobId: string): Promise<void> {
+    this.slots.get(key)?.delete(jobId);
+    this.slotOwners.delete(jobId);
+  }
+}
+
+export class RedisQuotaStore implements IQuotaStore {
+  private keyPrefix = 'agent:quota:';
+  private slotOwnersKey = `${this.keyPrefix}jobs:owners`;
+
+  private key(key: string): string {
+    return `${this.keyPrefix}${key}`;
+  }
+
+  public async getLimits(key: string): Promise<Partial<IQuotaLimits>> {
+    const overrides = await getRedisClient().hgetall(this.key(key));
+    return Object.fromEntries(Object.entries(overrides).map(([name, value]) => [name, parseInt(value)]));
+  }
+
+  public async setLimits(key: string, limits: Partial<IQuotaLimits>): Promise<void> {
+    await getRedisClient().hset(this.key(key), limits);
+  }
+
+  public async deleteLimits(key: string): Promise<void> {
+    await getRedisClient().del(this.key(key));
+  }
+
+  public async getCount(key: string): Promise<number> {
+    return parseInt((await getRedisClient().get(this.key(key))) || '0');
+  }
+
+  public async admitRequest(windows: { key: string; limit: number }[], ttlMs: number): Promise<number> {
+    return await getRedisClient().eval(
+      ADMIT_REQUEST_SCRIPT,
+      windows.length,
+      ...windows.map(window => this.key(window.key)),
+      ttlMs,
+      ...windows.map(window => window.limit)
+    ) as number;
+  }
+
+  public async addTokens(keys: string[], tokens: number, ttlSeconds: number): Promise<void> {
+    const transaction = getRedisClient().multi();
+    for (const key of keys) {
+      transaction.incrby(this.key(key), tokens).expire(this.key(key), ttlSeconds);
+    }
+    await transaction.exec();
+  }
+
+  public async acquireSlot(key: string, jobId: string, limit: number): Promise<boolean> {
+    return (await getRedisClient().eval(ACQUIRE_JOB_SLOT_SCRIPT, 1, this.key(key), jobId, limit)) === 1;
+  }
+
+  public async getSlots(key: string): Promise<string[]> {
+    return getRedisClient().smembers(this.key(key));
+  }
+
+  public async setSlotOwner(jobId: string, keys: string[]): Promise<void> {
+    await getRedisClient().hset(this.slotOwnersKey, jobId, JSON.stringify(keys.map(key => this.key(key))));
+  }
+
+  public async releaseSlots(jobId: string): Promise<void> {
+    const client = getRedisClient();
+    const owner = await client.hget(this.slotOwnersKey, jobId);
+    if (!owner) {
+      return;
+    }
+
+    const transaction = client.multi().hdel(this.slotOwnersKey, jobId);
+    for (const key of JSON.parse(owner) as string[]) {
+      transaction.srem(key, jobId);
+    }
+    await transaction.exec();
+  }
+
+  public async removeSlot(key: string, jobId: string): Promise<void> {
+    await getRedisClient().multi().srem(this.key(key), jobId).hdel(this.slotOwnersKey, jobId).exec();
+  }
+}
+
+export function createQuotaStore(): IQuotaStore {
+  switch (config.quotas.store) {
+    case 'redis':
+      return new RedisQuotaStore();
+    case 'memory':
+      return new InMemoryQuotaStore();
+    default:
+      throw new Error(`Unsupported quota store: ${config.quotas.store}`);
+  }
+}
+
+export class QuotaManager {
+  private store: IQuotaStore;
+
+  constructor(store?: IQuotaStore) {
+    this.store = store || createQuotaStore();
+  }
+
+  private limitsKey(scope: QuotaScope, id: string): string {
+    return `limits:${scope}:${id}`;
+  }
+
+  private requestsKey(scope: QuotaScope, id: string, window: number): string {
+    return `requests:${scope}:${id}:${window}`;
+  }
+
+  private tokensKey(scope: QuotaScope, id: string, day: string): string {
+    return `tokens:${scope}:${id}:${day}`;
+  }
+
+  private jobsKey(scope: QuotaScope, id: string): string {
+    return `jobs:${scope}:${id}`;
+  }
+
+  // Anonymous messages are not limited per user, only by their tenant (if any)
+  private getScopes(subject: IQuotaSubject): { scope: QuotaScope; id: string }[] {
+    const scopes: { scope: QuotaScope; id: string }[] = [];
+    if (subject.userId) scopes.push({ scope: 'user', id: subject.userId });
+    if (subject.tenantId) scopes.push({ scope: 'tenant', id: subject.tenantId });
+    return scopes;
+  }
+
+  private today(): string {
+    return new Date().toISOString().slice(0, 10);
+  }
+
+  private secondsUntilTomorrow(): number {
+    const now = new Date();
+    const tomorrow = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+    return Math.ceil((tomorrow - now.getTime()) / 1000);
+  }
+
+  public isEnabled(): boolean {
+    return config.quotas.enabled;
+  }
+
+  public async getLimits(scope: QuotaScope, id: string): Promise<IQuotaLimits> {
+    const overrides = await this.store.getLimits(this.limitsKey(scope, id));
+    const limits = { ...config.quotas[scope] };
+
+    for (const name of Object.keys(limits) as QuotaLimitName[]) {
+      if (overrides[name] !== undefined) {
+        limits[name] = overrides[name]!;
+      }
+    }
+
+    return limits;
+  }
+
+  public async setLimits(scope: QuotaScope, id: string, limits: Partial<IQuotaLimits>): Promise<IQuotaLimits> {
+    const fields = Object.entries(limits).filter(([, value]) => value !== undefined);
+    if (fields.length > 0) {
+      await this.store.setLimits(this.limitsKey(scope, id), Object.fromEntries(fields));
+    }
+
+    logger.info(`Updated quota limits for ${scope} ${id}`, { limits });
+    return this.getLimits(scope, id);
+  }
+
+  public async resetLimits(scope: QuotaScope, id: string): Promise<void> {
+    await this.store.deleteLimits(this.limitsKey(scope, id));
+  }
+
+  public async getStatus(scope: QuotaScope, id: string): Promise<{
+    limits: IQuotaLimits;
+    usage: IQuotaLimits;
+  }> {
+    const window = Math.floor(Date.now() / MINUTE_MS);
+
+    const [limits, requests, tokens, jobs] = await Promise.all([
+      this.getLimits(scope, id),
+      this.store.getCount(this.requestsKey(scope, id, window)),
+      this.store.getCount(this.tokensKey(scope, id, this.today())),
+      this.store.getSlots(this.jobsKey(scope, id)),
+    ]);
+
+    return {
+      limits,
+      usage: {
+        requestsPerMinute: requests,
+        tokensPerDay: tokens,
+        concurrentJobs: jobs.length,
+      },
+    };
+  }
+
+  // Rejects the request when the day's token allowance or the current minute's requests
+  // are used up, and otherwise counts it. Requests are counted per fixed calendar minute,
+  // not a sliding window: up to twice the limit can pass across a minute boundary.
+  public async checkRequest(subject: IQuotaSubject): Promise<void> {
+    if (!this.isEnabled()) {
+      return;
+    }
+
+    const window = Math.floor(Date.now() / MINUTE_MS);
+    const windows: { scope: QuotaScope; id: string; key: string; limit: number }[] = [];
+
+    for (const { scope, id } of this.getScopes(subject)) {
+      const limits = await this.getLimits(scope, id);
+
+      if (limits.tokensPerDay > 0) {
+        const tokens = await this.store.getCount(this.tokensKey(scope, id, this.today()));
+        if (tokens >= limits.tokensPerDay) {
+          throw new QuotaExceededError(scope, id, 'tokensPerDay', limits.tokensPerDay, this.secondsUntilTomorrow());
+        }
+      }
+
+      if (limits.requestsPerMinute > 0) {
+        windows.push({ scope, id, key: this.requestsKey(scope, id, window), limit: limits.requestsPerMinute });
+      }
+    }
+
+    if (windows.length === 0) {
+      return;
+    }
+
+    const full = await this.store.admitRequest(windows, MINUTE_MS);
+    if (full !== -1) {
+      const { scope, id, limit } = windows[full];
+      const retryAfter = Math.ceil(((window + 1) * MINUTE_MS - Date.now()) / 1000);
+      throw new QuotaExceededError(scope, id, 'requestsPerMinute', limit, retryAfter);
+    }
+  }
+
+  public async recordTokens(subject: IQuotaSubject, tokens: number): Promise<void> {
+    if (!this.isEnabled() || tokens <= 0) {
+      return;
+    }
+
+    const keys = this.getScopes(subject).map(({ scope, id }) => this.tokensKey(scope, id, this.today()));
+    await this.store.addTokens(keys, tokens, 2 * DAY_SECONDS);
+  }
+
+  // Reserves a job slot for every scope of the subject. Slots of jobs that finished
+  // without being released (e.g. after a crash) are pruned with isJobActive when full.
+  public async acquireJobSlot(
+    subject: IQuotaSubject,
+    jobId: string,
+    isJobActive?: (jobId: string) => Promise<boolean>
+  ): Promise<void> {
+    if (!this.isEnabled()) {
+      return;
+    }
+
+    const acquired: string[] = [];
+
+    try {
+      for (const { scope, id } of this.getScopes(subject)) {
+        const key = this.jobsKey(scope, id);
+        const { concurrentJobs } = await this.getLimits(scope, id);
+
+        let granted = await this.store.acquireSlot(key, jobId, concurrentJobs);
+        if (!granted && isJobActive) {
+          await this.pruneJobSlots(key, isJobActive);
+          granted = await this.store.acquireSlot(key, jobId, concurrentJobs);
+        }
+        if (!granted) {
+          throw new QuotaExceededError(scope, id, 'concurrentJobs', concurrentJobs, JOB_SLOT_RETRY_AFTER_SECONDS);
+        }
+        acquired.push(key);
+      }
+
+      if (acquired.length > 0) {
+        await this.store.setSlotOwner(jobId, acquired);
+      }
+    } catch (error) {
+      for (const key of acquired) {
+        await this.store.removeSlot(key, jobId);
+      }
+      throw error;
+    }
+  }
+
+  public async releaseJobSlot(jobId: string): Promise<void> {
+    if (!this.isEnabled()) {
+      return;
+    }
+
+    await this.store.releaseSlots(jobId);
+  }
+
+  private async pruneJobSlots(key: string, isJobActive: (jobId: string) => Promise<boolean>): Promise<void> {
+    for (const jobId of await this.store.getSlots(key)) {
+      if (!(await isJobActive(jobId))) {
+        await this.store.removeSlot(key, jobId);
+        logger.warn(`Released stale job slot for job ${jobId}`);
+      }
+    }
+  }
+}
+
+let quotaManager: QuotaManager | null = null;
+
+export function getQuotaManager(): QuotaManager {
+  if (!quotaManager) {
+    quotaManager = new QuotaManager();
+  }
+  return quotaManager;
+}
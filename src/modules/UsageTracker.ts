@@ -0,0 +1,223 @@
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger.js';
+import { config } from '../config/index.js';
+import { getRedisClient } from '../utils/redis.js';
+import { calculateCost } from '../utils/pricing.js';
+import {
+  IExecutionContext,
+  ILLMCallContext,
+  IUsageQuery,
+  IUsageRecord,
+  IUsageStore,
+  IUsageTotals,
+  UsageGroupBy,
+} from '../types/index.js';
+
+export interface IUsageReport {
+  from: Date;
+  to: Date;
+  totals: IUsageTotals;
+  groups?: (IUsageTotals & { key: Partial<Record<UsageGroupBy, string>> })[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Records read from Redis per round trip while a report is aggregated
+const USAGE_PAGE_SIZE = 1000;
+
+function retentionCutoff(): number {
+  return Date.now() - config.usage.retentionDays * DAY_MS;
+}
+
+export class InMemoryUsageStore implements IUsageStore {
+  private records: IUsageRecord[] = [];
+
+  public async add(record: IUsageRecord): Promise<void> {
+    this.records.push(record);
+
+    const cutoff = retentionCutoff();
+    if (this.records[0].timestamp.getTime() < cutoff) {
+      this.records = this.records.filter(entry => entry.timestamp.getTime() >= cutoff);
+    }
+  }
+
+  public async *scanRange(from: Date, to: Date): AsyncGenerator<IUsageRecord[]> {
+    yield this.records.filter(record => record.timestamp >= from && record.timestamp <= to);
+  }
+}
+
+// Records live in one sorted set scored by timestamp, so a time window is a range read
+export class RedisUsageStore implements IUsageStore {
+  private key = 'agent:usage:records';
+
+  public async add(record: IUsageRecord): Promise<void> {
+    // The id keeps identical calls in the same millisecond from collapsing into one member
+    const member = JSON.stringify({ id: uuidv4(), ...record });
+
+    await getRedisClient()
+      .multi()
+      .zadd(this.key, record.timestamp.getTime(), member)
+      .zremrangebyscore(this.key, '-inf', retentionCutoff())
+      .exec();
+  }
+
+  // Pages continue from the timestamp the previous page ended on rather than from an offset,
+  // so retention trimming the oldest records mid-scan does not skip any
+  public async *scanRange(from: Date, to: Date): AsyncGenerator<IUsageRecord[]> {
+    let min = from.getTime();
+    let skip = 0;
+
+    for (;;) {
+      const reply = await getRedisClient().zrangebyscore(
+        this.key, min, to.getTime(), 'WITHSCORES', 'LIMIT', skip, USAGE_PAGE_SIZE
+      );
+      const records: IUsageRecord[] = [];
+      let lastScore = min;
+      let atLastScore = 0;
+
+      for (let index = 0; index < reply.length; index += 2) {
+        const { id, ...record } = JSON.parse(reply[index]);
+        records.push({ ...record, timestamp: new Date(record.timestamp) } as IUsageRecord);
+
+        const score = Number(reply[index + 1]);
+        atLastScore = score === lastScore ? atLastScore + 1 : 1;
+        lastScore = score;
+      }
+
+      if (records.length > 0) {
+        yield records;
+      }
+      if (records.length < USAGE_PAGE_SIZE) {
+        return;
+      }
+
+      // Records sharing the last timestamp may continue on the next page
+      skip = lastScore === min ? skip + atLastScore : atLastScore;
+      min = lastScore;
+    }
+  }
+}
+
+export function createUsageStore(): IUsageStore {
+  switch (config.usage.store) {
+    case 'redis':
+      return new RedisUsageStore();
+    case 'memory':
+      return new InMemoryUsageStore();
+    default:
+      throw new Error(`Unsupported usage store: ${config.usage.store}`);
+  }
+}
+
+export function emptyUsageTotals(): IUsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0, cost: 0 };
+}
+
+function addToTotals(totals: IUsageTotals, record: IUsageRecord): void {
+  totals.calls++;
+  totals.inputTokens += record.inputTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.totalTokens += record.totalTokens;
+  totals.cost += record.cost;
+}
+
+// Attribution for LLM calls made by a function, taken from its execution context
+export function getCallContext(context?: IExecutionContext): ILLMCallContext {
+  return {
+    requestId: context?.metadata?.requestId,
+    sessionId: context?.sessionId,
+    userId: context?.userId,
+    tenantId: context?.metadata?.tenantId,
+  };
+}
+
+export class UsageTracker {
+  private store: IUsageStore;
+  // Running totals of requests in flight in this process, for IOrchestrationResponse.usage
+  private requestTotals: Map<string, IUsageTotals> = new Map();
+
+  constructor(store?: IUsageStore) {
+    this.store = store || createUsageStore();
+    logger.info('UsageTracker initialized', { store: config.usage.store });
+  }
+
+  public record(usage: Omit<IUsageRecord, 'timestamp' | 'cost'>): IUsageRecord {
+    const record: IUsageRecord = {
+      ...usage,
+      timestamp: new Date(),
+      cost: calculateCost(usage.provider, usage.model, usage),
+    };
+
+    if (record.requestId && this.requestTotals.has(record.requestId)) {
+      addToTotals(this.requestTotals.get(record.requestId)!, record);
+    }
+
+    // Accounting must never fail or slow down the LLM call it describes
+    this.store.add(record).catch(error => {
+      logger.error('Error recording LLM usage:', error);
+    });
+
+    return record;
+  }
+
+  public beginRequest(requestId: string): void {
+    this.requestTotals.set(requestId, emptyUsageTotals());
+  }
+
+  public endRequest(requestId: string): IUsageTotals {
+    const totals = this.requestTotals.get(requestId) || emptyUsageTotals();
+    this.requestTotals.delete(requestId);
+    return totals;
+  }
+
+  public async getUsage(query: IUsageQuery = {}): Promise<IUsageReport> {
+    const to = query.to || new Date();
+    const from = query.from || new Date(to.getTime() - 30 * DAY_MS);
+
+    const filters: (keyof IUsageQuery & keyof IUsageRecord)[] = [
+      'userId', 'tenantId', 'sessionId', 'requestId', 'model', 'provider', 'instanceId',
+    ];
+    const groupBy = query.groupBy || [];
+
+    // Records are folded into the totals page by page, so only one page is held at a time
+    const totals = emptyUsageTotals();
+    const groups: Map<string, IUsageTotals & { key: Partial<Record<UsageGroupBy, string>> }> = new Map();
+    for await (const page of this.store.scanRange(from, to)) {
+      for (const record of page) {
+        if (!filters.every(field => query[field] === undefined || record[field] === query[field])) {
+          continue;
+        }
+        addToTotals(totals, record);
+
+        if (groupBy.length > 0) {
+          const key = Object.fromEntries(groupBy.map(field => [field, record[field] ?? null]));
+          const id = JSON.stringify(key);
+          if (!groups.has(id)) {
+            groups.set(id, { key, ...emptyUsageTotals() });
+          }
+          addToTotals(groups.get(id)!, record);
+        }
+      }
+    }
+
+    if (groupBy.length === 0) {
+      return { from, to, totals };
+    }
+
+    return {
+      from,
+      to,
+      totals,
+      groups: Array.from(groups.values()).sort((a, b) => b.cost - a.cost || b.totalTokens - a.totalTokens),
+    };
+  }
+}
+
+let usageTracker: UsageTracker | null = null;
+
+// Shared by every LLMManager in the process, including the ones functions create
+export function getUsageTracker(): UsageTracker {
+  if (!usageTracker) {
+    usageTracker = new UsageTracker();
+  }
+  return usageTracker;
+}
@@ -3,12 +3,15 @@ export enum FunctionType {
   HELPER = 'helper',
   RUNNER = 'runner',
   WORKER = 'worker',
+  // Declared in JSON or YAML; runs other functions as steps
+  PIPELINE = 'pipeline',
 }
 
 export enum JobExecutionType {
   INSTANT = 'instant',
   SCHEDULE = 'schedule',
   REPEAT = 'repeat',
+  CRON = 'cron',
 }
 
 export enum JobStatus {
@@ -23,15 +26,48 @@ export enum LLMProvider {
   OPENAI = 'openai',
   ANTHROPIC = 'anthropic',
   GOOGLE = 'google',
+  // Any server speaking the OpenAI Chat Completions API (vLLM, LM Studio, LocalAI, ...)
+  OPENAI_COMPATIBLE = 'openai_compatible',
+  OLLAMA = 'ollama',
+  // Scripted, deterministic responses for tests and offline runs
+  MOCK = 'mock',
 }
 
 // Function Interfaces
-export interface IFunctionParameter {
+export type FunctionParameterType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+
+export interface IParameterSchema {
+  type: FunctionParameterType;
+  description?: string;
+  enum?: any[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+  items?: IParameterSchema;
+  properties?: IFunctionParameter[];
+  default?: any;
+}
+
+export interface IFunctionParameter extends IParameterSchema {
   name: string;
-  type: string;
   description: string;
   required: boolean;
-  default?: any;
+}
+
+export interface IParameterValidationError {
+  field: string;
+  message: string;
+  value?: any;
+}
+
+export interface IParameterValidationResult {
+  valid: boolean;
+  errors: IParameterValidationError[];
+  parameters: Record<string, any>;
 }
 
 export interface IFunctionDefinition {
@@ -39,8 +75,23 @@ export interface IFunctionDefinition {
   description: string;
   type: FunctionType;
   parameters: IFunctionParameter[];
+  // Semver; definitions without one are registered as 1.0.0
+  version?: string;
   timeout?: number;
   retries?: number;
+  // Runs the handler outside the orchestrator process
+  isolation?: IFunctionIsolation;
+}
+
+export type FunctionIsolationMode = 'none' | 'worker' | 'process';
+
+export interface IFunctionIsolation {
+  // 'worker' runs the handler in a worker thread, 'process' in a forked Node process
+  mode: FunctionIsolationMode;
+  // Heap limit; defaults to FUNCTION_SANDBOX_MAX_MEMORY_MB
+  maxMemoryMb?: number;
+  // Time the sandbox spends running code rather than waiting on I/O; 0 = unlimited
+  maxCpuMs?: number;
 }
 
 export interface IFunctionHandler {
@@ -52,16 +103,112 @@ export interface ICustomFunction {
   handler: IFunctionHandler;
 }
 
+export interface IFunctionReloadResult {
+  loaded: string[];
+  removed: string[];
+  // Files that failed to load; the functions they defined before keep their previous version
+  errors: { file: string; error: string }[];
+}
+
+export type FunctionEvent = 'function:loaded' | 'function:error';
+
+// Which version calls that are not pinned to one get
+export interface IFunctionRoute {
+  // Semver range such as "1.4.2" or "^1.4"; the highest registered match is used. Defaults to the latest release.
+  version?: string;
+  // Share of calls (0-100) sent to another version instead, e.g. a release being tried out
+  canary?: { version: string; percentage: number };
+}
+
+// Routes are shared by every instance. Each keeps a copy, so calls resolve without a round trip.
+export interface IFunctionRouteStore {
+  getAll(): Promise<Record<string, IFunctionRoute>>;
+  set(name: string, route: IFunctionRoute): Promise<void>;
+  delete(name: string): Promise<boolean>;
+  // Called with every change, including those made by other instances; null means deleted
+  subscribe(listener: (name: string, route: IFunctionRoute | null) => void): void;
+  close(): Promise<void>;
+}
+
+// Pipeline Interfaces
+export type PipelineConditionOperator =
+  | 'exists'
+  | 'notExists'
+  | 'equals'
+  | 'notEquals'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'in';
+
+export interface IPipelineCondition {
+  // Path into the pipeline's parameters ("input.city") or an earlier step's output ("weather.temperature")
+  path: string;
+  operator: PipelineConditionOperator;
+  value?: any;
+}
+
+// A path string, or an array or object of them, resolved against the pipeline's state
+export type PipelineMapping = string | PipelineMapping[] | { [key: string]: PipelineMapping };
+
+export interface IPipelineStep {
+  // Key of the step's output for later steps
+  id: string;
+  // Either a function to call...
+  function?: string;
+  version?: string;
+  // Literal parameters; mapped parameters win over them
+  parameters?: Record<string, any>;
+  map?: Record<string, PipelineMapping>;
+  // ...or branches run side by side. Each branch's output is readable under its own id,
+  // and the group's output maps branch ids to outputs.
+  parallel?: IPipelineStep[];
+  // The step is skipped unless every condition holds
+  when?: IPipelineCondition | IPipelineCondition[];
+}
+
+export interface IPipelineDefinition extends Omit<IFunctionDefinition, 'type' | 'isolation'> {
+  steps: IPipelineStep[];
+  // Shapes the result; defaults to every step's output keyed by step id
+  output?: PipelineMapping;
+}
+
+export interface IPipelineStepCall {
+  pipeline: string;
+  stepId: string;
+  functionName: string;
+  functionVersion?: string;
+  parameters: Record<string, any>;
+  context?: IExecutionContext;
+}
+
+export type PipelineStepRunner = (call: IPipelineStepCall) => Promise<any>;
+
 // Job Interfaces
 export interface IJobData {
   functionName: string;
+  // The version the job was queued with; every run of the job uses it
+  functionVersion?: string;
   parameters: Record<string, any>;
   executionType: JobExecutionType;
   scheduleTime?: Date;
   repeatInterval?: number;
   repeatDeadline?: Date;
+  cronExpression?: string;
+  timezone?: string;
   priority?: number;
   retries?: number;
+  // Who the job runs for, so its LLM usage can be attributed
+  userId?: string;
+  sessionId?: string;
+  tenantId?: string;
+  requestId?: string;
+  // Set on the jobs a pipeline runs for its steps
+  parentJobId?: string;
+  pipelineStep?: string;
+  // Set on the runs of repeat and cron jobs, whose queue ids differ from their record's
+  jobId?: string;
 }
 
 export interface IJob {
@@ -75,12 +222,28 @@ export interface IJob {
   error?: string;
 }
 
+export interface IAwaitJobOptions {
+  timeout?: number;
+  signal?: AbortSignal;
+}
+
+export interface IJobRepository {
+  save(job: IJob): Promise<void>;
+  get(jobId: string): Promise<IJob | undefined>;
+  getAll(): Promise<IJob[]>;
+  // Applies the changes only if the job's current status is one of fromStatuses (when given)
+  update(jobId: string, changes: Partial<IJob>, fromStatuses?: JobStatus[]): Promise<IJob | undefined>;
+  delete(jobId: string): Promise<boolean>;
+}
+
 // Message Interfaces
 export interface IIncomingMessage {
   id: string;
   content: string;
   metadata?: Record<string, any>;
   timestamp: Date;
+  replyTo?: string;
+  correlationId?: string;
 }
 
 export interface IOutgoingMessage {
@@ -90,6 +253,34 @@ export interface IOutgoingMessage {
   timestamp: Date;
 }
 
+// Where a reply is published: straight to the replyTo queue when set,
+// otherwise to the outgoing exchange under routingKey
+export interface IMessageRoute {
+  replyTo?: string;
+  correlationId?: string;
+  routingKey?: string;
+}
+
+// Which delivery of a queued message a handler is processing. A handler that throws has
+// the message redelivered later, or dead-lettered after its last attempt.
+export interface IMessageDelivery {
+  attempt: number;
+  lastAttempt: boolean;
+}
+
+export type MessageHandler = (message: IIncomingMessage, delivery: IMessageDelivery) => Promise<void>;
+
+export type DeadLetterReason = 'parse_error' | 'validation_error' | 'no_handler' | 'max_attempts';
+
+export interface IDeadLetterMessage {
+  messageId: string;
+  reason: DeadLetterReason;
+  error?: string;
+  attempts: number;
+  deadLetteredAt?: string;
+  content: any;
+}
+
 export interface IMessageAcknowledgment {
   messageId: string;
   status: 'success' | 'failure';
@@ -102,13 +293,52 @@ export interface ILLMConfig {
   provider: LLMProvider;
   apiKey: string;
   model: string;
+  // Only used by OPENAI_COMPATIBLE and OLLAMA
+  baseURL?: string;
+  // Only used by OPENAI_COMPATIBLE: ask for token usage at the end of a stream, which
+  // servers without stream_options support reject
+  streamUsage?: boolean;
   temperature?: number;
   maxTokens?: number;
   systemPrompt?: string;
 }
 
+export interface ILLMRetryPolicy {
+  maxAttempts: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+  backoffMultiplier: number;
+}
+
+// An ordered list of instances to try in turn; each is retried with backoff on
+// retryable errors before falling back to the next one
+export interface ILLMRoute {
+  name: string;
+  instanceIds: string[];
+  retry: ILLMRetryPolicy;
+}
+
+export type ILLMToolDefinition = Pick<IFunctionDefinition, 'name' | 'description' | 'parameters'>;
+
+export interface ILLMToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+  // Set when the arguments the model sent could not be parsed
+  error?: string;
+}
+
+export interface ILLMMessage {
+  role: 'user' | 'assistant' | 'tool';
+  content: string;
+  toolCalls?: ILLMToolCall[];
+  toolCallId?: string;
+  name?: string;
+}
+
 export interface ILLMResponse {
   content: string;
+  toolCalls?: ILLMToolCall[];
   usage?: {
     inputTokens: number;
     outputTokens: number;
@@ -117,6 +347,132 @@ export interface ILLMResponse {
   metadata?: Record<string, any>;
 }
 
+export interface ILLMStreamChunk {
+  delta: string;
+  done: boolean;
+  // Set on the final chunk, with the aggregated content, tool calls and usage
+  response?: ILLMResponse;
+}
+
+// Attribution for an LLM call, recorded with its usage
+export interface ILLMCallContext {
+  requestId?: string;
+  sessionId?: string;
+  userId?: string;
+  tenantId?: string;
+}
+
+// Usage Interfaces
+export interface IUsageRecord extends ILLMCallContext {
+  timestamp: Date;
+  instanceId: string;
+  provider: LLMProvider;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  // USD, from the configured price table
+  cost: number;
+}
+
+export interface IUsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number;
+}
+
+export type UsageGroupBy = 'userId' | 'tenantId' | 'sessionId' | 'requestId' | 'model' | 'provider' | 'instanceId';
+
+export interface IUsageQuery extends ILLMCallContext {
+  from?: Date;
+  to?: Date;
+  model?: string;
+  provider?: LLMProvider;
+  instanceId?: string;
+  groupBy?: UsageGroupBy[];
+}
+
+export interface IUsageStore {
+  add(record: IUsageRecord): Promise<void>;
+  // Records with from <= timestamp <= to, oldest first, a page at a time
+  scanRange(from: Date, to: Date): AsyncIterable<IUsageRecord[]>;
+}
+
+// Quota Interfaces
+export type QuotaScope = 'user' | 'tenant';
+
+// 0 means unlimited
+export interface IQuotaLimits {
+  requestsPerMinute: number;
+  tokensPerDay: number;
+  concurrentJobs: number;
+}
+
+export interface IQuotaSubject {
+  userId?: string;
+  tenantId?: string;
+}
+
+// Counters, limit overrides and job slot sets under the keys QuotaManager builds.
+// Counters expire after their TTL.
+export interface IQuotaStore {
+  getLimits(key: string): Promise<Partial<IQuotaLimits>>;
+  setLimits(key: string, limits: Partial<IQuotaLimits>): Promise<void>;
+  deleteLimits(key: string): Promise<void>;
+  getCount(key: string): Promise<number>;
+  // Counts a request in every window unless one of them has reached its limit. Returns
+  // the index of the first full window, or -1 once the request is counted.
+  admitRequest(windows: { key: string; limit: number }[], ttlMs: number): Promise<number>;
+  addTokens(keys: string[], tokens: number, ttlSeconds: number): Promise<void>;
+  // Adds the job to the slot set unless it already holds limit jobs (0 = unlimited)
+  acquireSlot(key: string, jobId: string, limit: number): Promise<boolean>;
+  getSlots(key: string): Promise<string[]>;
+  // Remembers the slot sets a job was added to, for releaseSlots
+  setSlotOwner(jobId: string, keys: string[]): Promise<void>;
+  releaseSlots(jobId: string): Promise<void>;
+  removeSlot(key: string, jobId: string): Promise<void>;
+}
+
+// Idempotency Interfaces
+export interface IIdempotencyRecord {
+  status: 'processing' | 'completed';
+  messageId: string;
+  // The process holding a 'processing' claim; only it may complete or release the key
+  ownerId: string;
+  // The final reply, re-sent when the message is delivered again after completing
+  response?: IOutgoingMessage;
+  updatedAt: Date;
+}
+
+export interface IIdempotencyStore {
+  // Stores the record unless the key is taken, in which case the existing record is returned
+  claim(key: string, record: IIdempotencyRecord, ttlSeconds: number): Promise<IIdempotencyRecord | null>;
+  // Replaces the record if ownerId still holds the key
+  update(key: string, record: IIdempotencyRecord, ttlSeconds: number): Promise<boolean>;
+  release(key: string, ownerId: string): Promise<void>;
+}
+
+// Auth Interfaces
+export type Role = 'viewer' | 'operator' | 'admin';
+
+export interface IPrincipal {
+  // The user id: JWT "sub" or the API key's subject
+  id: string;
+  role: Role;
+  tenantId?: string;
+  authMethod: 'jwt' | 'apiKey' | 'none';
+}
+
+// Conversation Interfaces
+export interface IConversationStore {
+  getHistory(sessionId: string): Promise<ILLMMessage[]>;
+  append(sessionId: string, messages: ILLMMessage[]): Promise<void>;
+  replace(sessionId: string, messages: ILLMMessage[]): Promise<void>;
+  clear(sessionId: string): Promise<void>;
+}
+
 // Execution Context
 export interface IExecutionContext {
   jobId: string;
@@ -124,25 +480,61 @@ export interface IExecutionContext {
   sessionId?: string;
   metadata?: Record<string, any>;
   logger: any;
+  signal?: AbortSignal;
+  // Receives log lines of sandboxed handlers, e.g. to attach them to the job
+  onLog?: (line: string) => void;
 }
 
 // Health Check Interface
+export interface IHealthCheck {
+  name: string;
+  status: 'healthy' | 'unhealthy' | 'unknown';
+  details?: string;
+}
+
 export interface IHealthStatus {
   module: string;
   status: 'healthy' | 'unhealthy' | 'unknown';
   details?: string;
+  // Status of the parts the module depends on, such as each LLM instance
+  checks?: IHealthCheck[];
   timestamp: Date;
 }
 
 // Agent Master Interfaces
+// Receives the text of a streamed reply. A step that streamed text and then called
+// functions is followed by onReset: the text so far is dropped and the next step starts over.
+// Without onReset, a step's text is held back until it is known to be the answer.
+export interface IChatStream {
+  onDelta: (delta: string) => void;
+  onReset?: () => void;
+}
+
 export interface IOrchestrationRequest {
   message: IIncomingMessage;
   context?: IExecutionContext;
+  stream?: IChatStream;
+  // Earlier turns supplied by the caller; replaces the stored session history
+  history?: ILLMMessage[];
+  // Aborted when the caller no longer wants the reply, e.g. an HTTP client disconnected
+  signal?: AbortSignal;
+}
+
+export interface IOrchestrationStep {
+  functionName: string;
+  parameters: Record<string, any>;
+  jobId?: string;
+  result?: any;
+  error?: string;
+  validationErrors?: IParameterValidationError[];
 }
 
 export interface IOrchestrationResponse {
   response: IOutgoingMessage;
   executedJobs?: string[];
+  steps?: IOrchestrationStep[];
+  // LLM usage of the orchestration itself, excluding calls made inside functions
+  usage?: IUsageTotals;
   status: 'success' | 'failure';
   error?: string;
 }
\ No newline at end of file
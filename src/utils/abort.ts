@@ -0,0 +1,74 @@
+export type ExecutionAbortReason = 'cancelled' | 'timeout' | 'shutdown';
+
+const ABORT_MESSAGES: Record<ExecutionAbortReason, string> = {
+  cancelled: 'Function execution cancelled',
+  timeout: 'Function execution timeout',
+  shutdown: 'Function execution interrupted by shutdown',
+};
+
+export class ExecutionAbortedError extends Error {
+  public readonly reason: ExecutionAbortReason;
+
+  constructor(reason: ExecutionAbortReason, message?: string) {
+    super(message || ABORT_MESSAGES[reason]);
+    this.name = 'ExecutionAbortedError';
+    this.reason = reason;
+  }
+}
+
+// BullMQ aborts with a plain string reason, so both forms are normalized here
+export function toAbortError(signal: AbortSignal): ExecutionAbortedError {
+  const { reason } = signal;
+  if (reason instanceof ExecutionAbortedError) {
+    return reason;
+  }
+  if (typeof reason === 'string' && reason in ABORT_MESSAGES) {
+    return new ExecutionAbortedError(reason as ExecutionAbortReason);
+  }
+  return new ExecutionAbortedError('cancelled');
+}
+
+// Settles as soon as the signal fires, even if the wrapped work never checks it
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(toAbortError(signal));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(toAbortError(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) {
+    return Promise.reject(toAbortError(signal));
+  }
+
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(toAbortError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,52 @@
+import parser from 'cron-parser';
+import { config } from '../config/index.js';
+
+export interface ICronPreviewOptions {
+  timezone?: string;
+  count?: number;
+  endDate?: Date;
+}
+
+// BullMQ evaluates repeat patterns with cron-parser, so expressions are checked
+// with the same parser to guarantee that what validates here also runs there
+export function validateCronExpression(expression: string, timezone?: string): void {
+  if (!expression || typeof expression !== 'string') {
+    throw new Error('Cron expression is required for cron jobs');
+  }
+
+  if (timezone && !isValidTimezone(timezone)) {
+    throw new Error(`Invalid timezone: ${timezone}`);
+  }
+
+  try {
+    parser.parseExpression(expression, { tz: timezone || config.jobs.timezone });
+  } catch (error) {
+    throw new Error(`Invalid cron expression "${expression}": ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+export function getNextCronRuns(expression: string, options: ICronPreviewOptions = {}): Date[] {
+  validateCronExpression(expression, options.timezone);
+
+  const interval = parser.parseExpression(expression, {
+    tz: options.timezone || config.jobs.timezone,
+    endDate: options.endDate,
+  });
+
+  const runs: Date[] = [];
+  const count = Math.min(Math.max(options.count || 5, 1), 50);
+  while (runs.length < count && interval.hasNext()) {
+    runs.push(interval.next().toDate());
+  }
+
+  return runs;
+}
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,10 @@
+import Joi from 'joi';
+
+// Version ranges are checked against the registered versions by FunctionsManager
+export const functionRouteSchema = Joi.object({
+  version: Joi.string().min(1).optional(),
+  canary: Joi.object({
+    version: Joi.string().min(1).required(),
+    percentage: Joi.number().min(0).max(100).required(),
+  }).optional(),
+});
@@ -0,0 +1,93 @@
+import { IFunctionParameter, IParameterSchema, ILLMToolDefinition } from '../types/index.js';
+import { PARAMETER_TYPES } from './parameterValidator.js';
+
+// Definitions loaded at runtime are not type-checked, so unknown types are sent as strings
+function normalizeType(type: string): string {
+  const normalized = (type || '').toLowerCase();
+  return PARAMETER_TYPES.includes(normalized) ? normalized : 'string';
+}
+
+export function parameterToJsonSchema(param: IParameterSchema): Record<string, any> {
+  const type = normalizeType(param.type);
+  const schema: Record<string, any> = { type };
+
+  if (param.description) schema.description = param.description;
+  if (param.enum) schema.enum = param.enum;
+  if (param.minimum !== undefined) schema.minimum = param.minimum;
+  if (param.maximum !== undefined) schema.maximum = param.maximum;
+  if (param.minLength !== undefined) schema.minLength = param.minLength;
+  if (param.maxLength !== undefined) schema.maxLength = param.maxLength;
+  if (param.pattern) schema.pattern = param.pattern;
+  if (param.minItems !== undefined) schema.minItems = param.minItems;
+  if (param.maxItems !== undefined) schema.maxItems = param.maxItems;
+  if (param.default !== undefined) schema.default = param.default;
+
+  if (type === 'array') {
+    schema.items = param.items ? parameterToJsonSchema(param.items) : {};
+  }
+
+  if (type === 'object' && param.properties) {
+    Object.assign(schema, toObjectSchema(param.properties));
+  }
+
+  return schema;
+}
+
+function toObjectSchema(parameters: IFunctionParameter[]): Record<string, any> {
+  const properties: Record<string, any> = {};
+  for (const param of parameters) {
+    properties[param.name] = parameterToJsonSchema(param);
+  }
+
+  return {
+    properties,
+    required: parameters.filter(param => param.required).map(param => param.name),
+  };
+}
+
+export function toJsonSchema(definition: ILLMToolDefinition): Record<string, any> {
+  return {
+    type: 'object',
+    ...toObjectSchema(definition.parameters),
+  };
+}
+
+// Gemini takes an OpenAPI subset: upper-case types, no defaults, and arrays must declare items
+export function toGeminiSchema(schema: Record<string, any>): Record<string, any> {
+  const converted: Record<string, any> = {
+    type: (schema.type || 'string').toUpperCase(),
+  };
+
+  if (schema.description) converted.description = schema.description;
+  if (schema.enum && converted.type === 'STRING') converted.enum = schema.enum.map(String);
+
+  // Gemini rejects OBJECT schemas without properties, so free-form objects are left out
+  if (schema.properties) {
+    converted.properties = Object.fromEntries(
+      Object.entries(schema.properties)
+        .map(([key, value]): [string, Record<string, any>] => [key, toGeminiSchema(value as Record<string, any>)])
+        .filter(([, value]) => !isFreeFormObject(value))
+    );
+  }
+
+  const required = (schema.required || []).filter((key: string) => converted.properties?.[key]);
+  if (required.length > 0) converted.required = required;
+
+  if (converted.type === 'ARRAY') {
+    const items = schema.items && schema.items.type ? toGeminiSchema(schema.items) : undefined;
+    converted.items = items && !isFreeFormObject(items) ? items : { type: 'STRING' };
+  }
+
+  return converted;
+}
+
+// Parameters of a function declaration, or undefined when nothing is left to declare,
+// e.g. for tools without parameters
+export function toGeminiParameters(definition: ILLMToolDefinition): Record<string, any> | undefined {
+  const schema = toGeminiSchema(toJsonSchema(definition));
+  return isFreeFormObject(schema) ? undefined : schema;
+}
+
+function isFreeFormObject(schema: Record<string, any>): boolean {
+  return schema.type === 'OBJECT' && Object.keys(schema.properties || {}).length === 0;
+}
@@ -0,0 +1,55 @@
+import Joi from 'joi';
+import { ILLMConfig, LLMProvider } from '../types/index.js';
+
+const providers = Object.values(LLMProvider);
+
+export const createLLMInstanceSchema = Joi.object({
+  provider: Joi.string().valid(...providers).required(),
+  // Falls back to the provider's configured key when omitted
+  apiKey: Joi.string().min(1).optional(),
+  // Falls back to the configured server for openai_compatible and ollama
+  baseURL: Joi.string().uri({ scheme: ['http', 'https'] }).optional(),
+  streamUsage: Joi.boolean().optional(),
+  model: Joi.string().min(1).required(),
+  temperature: Joi.number().min(0).max(2).optional(),
+  maxTokens: Joi.number().integer().min(1).optional(),
+  systemPrompt: Joi.string().allow('').optional(),
+});
+
+export const updateLLMInstanceSchema = Joi.object({
+  provider: Joi.string().valid(...providers).optional(),
+  apiKey: Joi.string().min(1).optional(),
+  baseURL: Joi.string().uri({ scheme: ['http', 'https'] }).optional(),
+  streamUsage: Joi.boolean().optional(),
+  model: Joi.string().min(1).optional(),
+  temperature: Joi.number().min(0).max(2).optional(),
+  maxTokens: Joi.number().integer().min(1).optional(),
+  systemPrompt: Joi.string().allow('').optional(),
+}).min(1);
+
+export function redactApiKey(apiKey: string): string {
+  if (!apiKey) {
+    return '';
+  }
+  return apiKey.length > 8 ? `****${apiKey.slice(-4)}` : '****';
+}
+
+// The only shape in which instances leave the server: never expose the API key
+export function redactLLMInstance(instance: {
+  id: string;
+  config: ILLMConfig;
+  createdAt: Date;
+  lastUsed?: Date;
+}): Record<string, any> {
+  return {
+    id: instance.id,
+    provider: instance.config.provider,
+    model: instance.config.model,
+    config: {
+      ...instance.config,
+      apiKey: redactApiKey(instance.config.apiKey),
+    },
+    createdAt: instance.createdAt,
+    lastUsed: instance.lastUsed,
+  };
+}
@@ -20,6 +20,20 @@ if (!fs.existsSync(logsDir)) {
   fs.mkdirSync(logsDir, { recursive: true });
 }
 
+// Errors from axios refer to their socket, which refers back to the request
+function stringifyMeta(meta: Record<string, unknown>): string {
+  const seen = new WeakSet<object>();
+  return JSON.stringify(meta, (_key, value) => {
+    if (typeof value === 'object' && value !== null) {
+      if (seen.has(value)) {
+        return '[Circular]';
+      }
+      seen.add(value);
+    }
+    return value;
+  });
+}
+
 // Custom format for console output
 const consoleFormat = winston.format.combine(
   winston.format.colorize(),
@@ -27,7 +41,7 @@ const consoleFormat = winston.format.combine(
   winston.format.printf(({ timestamp, level, message, ...meta }) => {
     let msg = `${timestamp} [${level}]: ${message}`;
     if (Object.keys(meta).length > 0) {
-      msg += ` ${JSON.stringify(meta)}`;
+      msg += ` ${stringifyMeta(meta)}`;
     }
     return msg;
   })
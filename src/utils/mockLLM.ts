@@ -0,0 +1,216 @@
+import fs from 'fs';
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from './logger.js';
+import { ILLMMessage, ILLMResponse, ILLMToolDefinition } from '../types/index.js';
+
+// A scripted response. Tool call ids are generated on replay, so fixtures leave them out.
+export interface IMockLLMResponse {
+  content?: string;
+  toolCalls?: { name: string; arguments?: Record<string, any> }[];
+}
+
+export interface IMockLLMRule {
+  // Regular expression tested against the content of the last message. Capture groups
+  // can be used as $1, $2, ... in the response content and in string tool arguments.
+  match: string;
+  flags?: string;
+  // Only match when the last message has this role (e.g. 'tool' for the follow-up turn)
+  role?: ILLMMessage['role'];
+  response: IMockLLMResponse;
+}
+
+export interface IMockLLMCassetteEntry {
+  key: string;
+  response: IMockLLMResponse;
+}
+
+export interface IMockLLMFixtures {
+  rules?: IMockLLMRule[];
+  // Recorded responses, replayed when a request is identical to the recorded one
+  cassette?: IMockLLMCassetteEntry[];
+  default?: IMockLLMResponse;
+}
+
+const DEFAULT_RESPONSE: IMockLLMResponse = { content: 'This is a mock response.' };
+
+// Identifies a request independently of generated tool call ids, so a recorded
+// conversation replays even though the ids differ between runs
+export function getMockRequestKey(messages: ILLMMessage[], tools?: ILLMToolDefinition[]): string {
+  const normalized = {
+    messages: messages.map(message => ({
+      role: message.role,
+      content: message.content,
+      name: message.name,
+      toolCalls: message.toolCalls?.map(call => ({ name: call.name, arguments: call.arguments })),
+    })),
+    tools: (tools || []).map(tool => tool.name).sort(),
+  };
+
+  return createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
+}
+
+export function loadMockFixtures(fixturesPath?: string): IMockLLMFixtures {
+  if (!fixturesPath || !fs.existsSync(fixturesPath)) {
+    return {};
+  }
+  return JSON.parse(fs.readFileSync(fixturesPath, 'utf8'));
+}
+
+interface ICassette {
+  fixtures: IMockLLMFixtures;
+  // Pending write; records made while it runs are picked up by one follow-up write
+  writing: Promise<void>;
+  dirty: boolean;
+}
+
+// Cassettes being recorded, read once and then kept in memory
+const cassettes = new Map<string, ICassette>();
+
+function getCassette(cassettePath: string): ICassette {
+  let cassette = cassettes.get(cassettePath);
+  if (!cassette) {
+    cassette = { fixtures: loadMockFixtures(cassettePath), writing: Promise.resolve(), dirty: false };
+    cassettes.set(cassettePath, cassette);
+  }
+  return cassette;
+}
+
+function scheduleCassetteWrite(cassettePath: string, cassette: ICassette): void {
+  if (cassette.dirty) {
+    return;
+  }
+  cassette.dirty = true;
+
+  cassette.writing = cassette.writing.then(async () => {
+    cassette.dirty = false;
+    try {
+      await fs.promises.writeFile(cassettePath, JSON.stringify(cassette.fixtures, null, 2));
+    } catch (error) {
+      logger.warn(`Failed to write LLM cassette ${cassettePath}:`, error);
+    }
+  });
+}
+
+// Adds a real provider response to a cassette file, which can later be loaded as
+// mock fixtures to replay the same conversation offline. The file is written in the
+// background; flushCassette waits for it.
+export function recordCassetteEntry(
+  cassettePath: string,
+  messages: ILLMMessage[],
+  tools: ILLMToolDefinition[] | undefined,
+  response: ILLMResponse
+): void {
+  try {
+    const cassette = getCassette(cassettePath);
+    const key = getMockRequestKey(messages, tools);
+
+    cassette.fixtures.cassette = (cassette.fixtures.cassette || []).filter(entry => entry.key !== key);
+    cassette.fixtures.cassette.push({
+      key,
+      response: {
+        content: response.content,
+        ...(response.toolCalls && {
+          toolCalls: response.toolCalls.map(call => ({ name: call.name, arguments: call.arguments })),
+        }),
+      },
+    });
+
+    scheduleCassetteWrite(cassettePath, cassette);
+  } catch (error) {
+    logger.warn(`Failed to record LLM cassette entry to ${cassettePath}:`, error);
+  }
+}
+
+export async function flushCassette(cassettePath: string): Promise<void> {
+  await cassettes.get(cassettePath)?.writing;
+}
+
+// Deterministic stand-in for a provider client: a recorded cassette entry wins, then
+// the first matching rule, then the default response
+export class MockLLMClient {
+  private fixtures: IMockLLMFixtures;
+  private calls: ILLMMessage[][] = [];
+
+  constructor(fixtures: IMockLLMFixtures = {}) {
+    this.fixtures = fixtures;
+  }
+
+  public addRule(rule: IMockLLMRule): void {
+    this.fixtures.rules = [...(this.fixtures.rules || []), rule];
+  }
+
+  public setFixtures(fixtures: IMockLLMFixtures): void {
+    this.fixtures = fixtures;
+  }
+
+  // Every request received so far, for assertions in tests
+  public getCalls(): ILLMMessage[][] {
+    return this.calls;
+  }
+
+  public reset(): void {
+    this.calls = [];
+  }
+
+  public respond(messages: ILLMMessage[], tools: ILLMToolDefinition[] | undefined, model: string): ILLMResponse {
+    this.calls.push(messages);
+
+    const key = getMockRequestKey(messages, tools);
+    const recorded = this.fixtures.cassette?.find(entry => entry.key === key);
+    if (recorded) {
+      return this.toResponse(recorded.response, [], messages, model);
+    }
+
+    const last = messages[messages.length - 1];
+    for (const rule of this.fixtures.rules || []) {
+      if (rule.role && rule.role !== last?.role) continue;
+
+      const match = new RegExp(rule.match, rule.flags).exec(last?.content || '');
+      if (match) {
+        return this.toResponse(rule.response, match, messages, model);
+      }
+    }
+
+    return this.toResponse(this.fixtures.default || DEFAULT_RESPONSE, [], messages, model);
+  }
+
+  private toResponse(
+    scripted: IMockLLMResponse,
+    match: string[],
+    messages: ILLMMessage[],
+    model: string
+  ): ILLMResponse {
+    const content = this.substitute(scripted.content || '', match);
+    const toolCalls = (scripted.toolCalls || []).map(call => ({
+      id: uuidv4(),
+      name: call.name,
+      arguments: this.substituteArguments(call.arguments || {}, match),
+    }));
+
+    // Roughly four characters per token, so budgets and usage behave realistically
+    const inputTokens = Math.ceil(messages.reduce((total, message) => total + message.content.length, 0) / 4);
+    const outputTokens = Math.ceil(content.length / 4);
+
+    return {
+      content,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+      metadata: { model, finishReason: toolCalls.length > 0 ? 'tool_calls' : 'stop' },
+    };
+  }
+
+  private substitute(template: string, match: string[]): string {
+    return template.replace(/\$(\d+)/g, (placeholder, index) => match[Number(index)] ?? placeholder);
+  }
+
+  private substituteArguments(args: Record<string, any>, match: string[]): Record<string, any> {
+    // Captures are strings; parameter validation coerces them to the declared types
+    return Object.fromEntries(
+      Object.entries(args).map(([name, value]) => [
+        name,
+        typeof value === 'string' ? this.substitute(value, match) : value,
+      ])
+    );
+  }
+}
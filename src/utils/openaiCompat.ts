@@ -0,0 +1,96 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ILLMMessage } from '../types/index.js';
+
+// Model id under which the orchestrator (with function execution) is exposed
+export const AGENT_MODEL_ID = 'agent';
+
+function contentToText(content: any): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  // Content parts: only text parts are supported
+  if (Array.isArray(content)) {
+    return content
+      .filter(part => part && part.type === 'text' && typeof part.text === 'string')
+      .map(part => part.text)
+      .join('');
+  }
+  return '';
+}
+
+// Converts Chat Completions messages to our message format. System messages are
+// folded into a user message, since instances carry their own system prompt.
+// Client-side tool calls are not supported and are dropped.
+export function toLLMMessages(messages: any[]): ILLMMessage[] {
+  const converted: ILLMMessage[] = [];
+
+  for (const message of messages) {
+    const content = contentToText(message?.content);
+
+    switch (message?.role) {
+      case 'system':
+      case 'developer':
+        if (content) converted.push({ role: 'user', content: `Instructions: ${content}` });
+        break;
+      case 'user':
+        converted.push({ role: 'user', content });
+        break;
+      case 'assistant':
+        if (content) converted.push({ role: 'assistant', content });
+        break;
+      default:
+        break;
+    }
+  }
+
+  return converted;
+}
+
+export function createCompletionId(): string {
+  return `chatcmpl-${uuidv4()}`;
+}
+
+export function createCompletion(
+  id: string,
+  model: string,
+  content: string,
+  usage: { inputTokens: number; outputTokens: number; totalTokens: number }
+): Record<string, any> {
+  return {
+    id,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [
+      {
+        index: 0,
+        message: { role: 'assistant', content },
+        finish_reason: 'stop',
+      },
+    ],
+    usage: {
+      prompt_tokens: usage.inputTokens,
+      completion_tokens: usage.outputTokens,
+      total_tokens: usage.totalTokens,
+    },
+  };
+}
+
+export function createCompletionChunk(
+  id: string,
+  model: string,
+  delta: { role?: 'assistant'; content?: string },
+  finishReason: string | null = null
+): Record<string, any> {
+  return {
+    id,
+    object: 'chat.completion.chunk',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  };
+}
+
+export function openAIError(message: string, type: string = 'invalid_request_error', code: string | null = null) {
+  return { error: { message, type, param: null, code } };
+}
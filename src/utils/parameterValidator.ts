@@ -0,0 +1,226 @@
+import {
+  IFunctionParameter,
+  IParameterSchema,
+  IParameterValidationError,
+  IParameterValidationResult,
+} from '../types/index.js';
+
+export const PARAMETER_TYPES = ['string', 'number', 'integer', 'boolean', 'array', 'object'];
+
+// Patterns are compiled once, when the declaration is checked at load, not on every call
+const compiledPatterns = new Map<string, RegExp>();
+
+function compilePattern(pattern: string): RegExp {
+  let regex = compiledPatterns.get(pattern);
+  if (!regex) {
+    regex = new RegExp(pattern);
+    compiledPatterns.set(pattern, regex);
+  }
+  return regex;
+}
+
+export class FunctionValidationError extends Error {
+  public readonly functionName: string;
+  public readonly errors: IParameterValidationError[];
+
+  constructor(functionName: string, errors: IParameterValidationError[]) {
+    super(`Invalid parameters for function ${functionName}: ${errors.map(error => `${error.field}: ${error.message}`).join('; ')}`);
+    this.name = 'FunctionValidationError';
+    this.functionName = functionName;
+    this.errors = errors;
+  }
+}
+
+// LLMs routinely send "42" for numbers or "true" for booleans, so values are coerced
+// to the declared type where the intent is unambiguous before being checked
+function coerce(value: any, schema: IParameterSchema): any {
+  switch (schema.type) {
+    case 'number':
+    case 'integer':
+      if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+        return Number(value);
+      }
+      return value;
+
+    case 'boolean':
+      if (value === 'true') return true;
+      if (value === 'false') return false;
+      return value;
+
+    case 'string':
+      if (typeof value === 'number' || typeof value === 'boolean') {
+        return String(value);
+      }
+      return value;
+
+    case 'array':
+    case 'object':
+      if (typeof value === 'string') {
+        try {
+          return JSON.parse(value);
+        } catch {
+          return value;
+        }
+      }
+      return value;
+
+    default:
+      return value;
+  }
+}
+
+function typeMatches(value: any, type: string): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && !isNaN(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    default:
+      return false;
+  }
+}
+
+function validateValue(
+  input: any,
+  schema: IParameterSchema,
+  field: string,
+  errors: IParameterValidationError[]
+): any {
+  let value = coerce(input, schema);
+
+  if (!typeMatches(value, schema.type)) {
+    errors.push({ field, message: `must be of type ${schema.type}`, value: input });
+    return value;
+  }
+
+  if (schema.enum) {
+    // Strings match their enum value regardless of case and are replaced by it
+    const match = schema.enum.find(option => option === value
+      || (typeof option === 'string' && typeof value === 'string' && option.toLowerCase() === value.toLowerCase()));
+    if (match === undefined) {
+      errors.push({ field, message: `must be one of: ${schema.enum.join(', ')}`, value });
+    } else {
+      value = match;
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ field, message: `must be >= ${schema.minimum}`, value });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ field, message: `must be <= ${schema.maximum}`, value });
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push({ field, message: `must be at least ${schema.minLength} characters`, value });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push({ field, message: `must be at most ${schema.maxLength} characters` });
+    }
+    if (schema.pattern && !compilePattern(schema.pattern).test(value)) {
+      errors.push({ field, message: `must match pattern ${schema.pattern}`, value });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({ field, message: `must contain at least ${schema.minItems} items` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push({ field, message: `must contain at most ${schema.maxItems} items` });
+    }
+    if (schema.items) {
+      return value.map((item, index) => validateValue(item, schema.items!, `${field}[${index}]`, errors));
+    }
+  }
+
+  if (schema.type === 'object' && schema.properties) {
+    return validateObject(value, schema.properties, `${field}.`, errors);
+  }
+
+  return value;
+}
+
+function validateObject(
+  input: Record<string, any>,
+  parameters: IFunctionParameter[],
+  prefix: string,
+  errors: IParameterValidationError[]
+): Record<string, any> {
+  // Parameters that are not declared are passed through untouched
+  const output: Record<string, any> = { ...input };
+
+  for (const param of parameters) {
+    const field = `${prefix}${param.name}`;
+    const value = input[param.name];
+
+    if (value === undefined || value === null) {
+      if (param.default !== undefined) {
+        output[param.name] = structuredClone(param.default);
+      } else if (param.required) {
+        errors.push({ field, message: 'is required' });
+      }
+      continue;
+    }
+
+    output[param.name] = validateValue(value, param, field, errors);
+  }
+
+  return output;
+}
+
+function findSchemaError(schema: IParameterSchema, field: string): string | undefined {
+  if (!PARAMETER_TYPES.includes(schema.type)) {
+    return `Parameter ${field} has unknown type "${schema.type}"; use one of ${PARAMETER_TYPES.join(', ')}`;
+  }
+  if (schema.pattern !== undefined) {
+    try {
+      compilePattern(schema.pattern);
+    } catch (error) {
+      return `Parameter ${field} has an invalid pattern: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+  if (schema.items) {
+    const error = findSchemaError(schema.items, `${field}[]`);
+    if (error) return error;
+  }
+  return schema.properties ? findParametersError(schema.properties, `${field}.`) : undefined;
+}
+
+// Describes the first parameter declaration validateParameters cannot check, including
+// the items and properties nested in it
+export function findParametersError(parameters: IFunctionParameter[], prefix = ''): string | undefined {
+  for (const param of parameters) {
+    if (typeof param?.name !== 'string') {
+      return prefix ? `A property of ${prefix.slice(0, -1)} has no name` : 'A parameter has no name';
+    }
+    const error = findSchemaError(param, `${prefix}${param.name}`);
+    if (error) return error;
+  }
+  return undefined;
+}
+
+export function validateParameters(
+  parameters: IFunctionParameter[],
+  input: Record<string, any>
+): IParameterValidationResult {
+  const errors: IParameterValidationError[] = [];
+  const validated = validateObject(input || {}, parameters, '', errors);
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    parameters: validated,
+  };
+}
@@ -0,0 +1,264 @@
+import Joi from 'joi';
+import yaml from 'js-yaml';
+import { logger } from './logger.js';
+import { PARAMETER_TYPES } from './parameterValidator.js';
+import {
+  FunctionType,
+  ICustomFunction,
+  IExecutionContext,
+  IPipelineCondition,
+  IPipelineDefinition,
+  IPipelineStep,
+  PipelineMapping,
+  PipelineStepRunner,
+} from '../types/index.js';
+
+// Root of paths that point into the pipeline's own parameters
+const INPUT_ROOT = 'input';
+// Pipelines nested deeper than this fail. Cycles are rejected when pipelines load; this
+// stops one that slips through, e.g. through a route switching a step to another version.
+const MAX_PIPELINE_DEPTH = 8;
+
+const mappingSchema: Joi.Schema = Joi.alternatives().try(
+  Joi.string().min(1),
+  Joi.array().items(Joi.link('#pipelineMapping')),
+  Joi.object().pattern(Joi.string(), Joi.link('#pipelineMapping'))
+).id('pipelineMapping');
+
+const conditionSchema = Joi.object({
+  path: Joi.string().min(1).required(),
+  operator: Joi.string().valid('exists', 'notExists', 'equals', 'notEquals', 'gt', 'gte', 'lt', 'lte', 'in').required(),
+  value: Joi.any()
+    .when('operator', { is: 'in', then: Joi.array().required() })
+    .when('operator', { is: Joi.valid('exists', 'notExists'), otherwise: Joi.required() }),
+});
+
+const stepFields = {
+  id: Joi.string().pattern(/^[A-Za-z_][\w-]*$/).invalid(INPUT_ROOT).required(),
+  version: Joi.string().min(1).optional(),
+  parameters: Joi.object().optional(),
+  map: Joi.object().pattern(Joi.string(), mappingSchema).optional(),
+  when: Joi.alternatives().try(conditionSchema, Joi.array().items(conditionSchema).min(1)).optional(),
+};
+
+const functionStepSchema = Joi.object({ ...stepFields, function: Joi.string().min(1).required() });
+
+// Branches call functions; they cannot nest further groups
+const stepSchema = Joi.object({
+  ...stepFields,
+  function: Joi.string().min(1),
+  parallel: Joi.array().items(functionStepSchema).min(1),
+})
+  .xor('function', 'parallel')
+  .oxor('parallel', 'version')
+  .oxor('parallel', 'parameters')
+  .oxor('parallel', 'map');
+
+export const pipelineSchema = Joi.object({
+  name: Joi.string().min(1).required(),
+  description: Joi.string().required(),
+  version: Joi.string().optional(),
+  timeout: Joi.number().integer().min(1).optional(),
+  retries: Joi.number().integer().min(0).optional(),
+  parameters: Joi.array().items(Joi.object({
+    name: Joi.string().required(),
+    type: Joi.string().valid(...PARAMETER_TYPES).required(),
+    description: Joi.string().required(),
+    required: Joi.boolean().required(),
+  }).unknown(true)).default([]),
+  steps: Joi.array().items(stepSchema).min(1).required(),
+  output: mappingSchema.optional(),
+});
+
+export class PipelineStepError extends Error {
+  public readonly pipeline: string;
+  public readonly stepId: string;
+
+  constructor(pipeline: string, stepId: string, cause: unknown) {
+    super(`Pipeline ${pipeline} failed at step ${stepId}: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'PipelineStepError';
+    this.pipeline = pipeline;
+    this.stepId = stepId;
+  }
+}
+
+function getMappingPaths(mapping: PipelineMapping | undefined): string[] {
+  if (mapping === undefined) {
+    return [];
+  }
+  if (typeof mapping === 'string') {
+    return [mapping];
+  }
+  return (Array.isArray(mapping) ? mapping : Object.values(mapping)).flatMap(getMappingPaths);
+}
+
+function getStepPaths(step: IPipelineStep): string[] {
+  const conditions = step.when ? ([] as IPipelineCondition[]).concat(step.when) : [];
+  return [...Object.values(step.map || {}).flatMap(getMappingPaths), ...conditions.map(condition => condition.path)];
+}
+
+// Steps may only read the input and the steps before them; branches of one group cannot
+// read each other, since they run at the same time
+function checkReferences(definition: IPipelineDefinition): void {
+  const known = new Set<string>([INPUT_ROOT]);
+  const check = (paths: string[], where: string) => {
+    const unknown = paths.find(path => !known.has(path.split('.')[0]));
+    if (unknown) {
+      throw new Error(`${where} refers to ${unknown}, which is neither input nor an earlier step`);
+    }
+  };
+
+  for (const step of definition.steps) {
+    (step.parallel || []).forEach(branch => check(getStepPaths(branch), `Step ${branch.id}`));
+    check(getStepPaths(step), `Step ${step.id}`);
+
+    for (const id of [step.id, ...(step.parallel || []).map(branch => branch.id)]) {
+      if (known.has(id)) {
+        throw new Error(`Step id ${id} is used more than once`);
+      }
+      known.add(id);
+    }
+  }
+
+  check(getMappingPaths(definition.output), 'Output');
+}
+
+// Names of the functions a pipeline calls
+export function getPipelineCalls(definition: IPipelineDefinition): string[] {
+  const calls = definition.steps.flatMap(step => step.parallel || [step]).map(step => step.function!);
+  return Array.from(new Set(calls));
+}
+
+// Parses a pipeline file. YAML is a superset of JSON, so one parser handles both.
+export function parsePipeline(source: string): IPipelineDefinition {
+  const { error, value } = pipelineSchema.validate(yaml.load(source), { abortEarly: true });
+  if (error) {
+    throw new Error(`Invalid pipeline: ${error.message}`);
+  }
+
+  checkReferences(value);
+  return value;
+}
+
+// "weather.temperature" or "readings.0.value"; missing segments resolve to undefined
+function resolvePath(state: Record<string, any>, path: string): any {
+  return path.split('.').reduce((value, segment) => (value == null ? undefined : value[segment]), state);
+}
+
+function resolveMapping(state: Record<string, any>, mapping: PipelineMapping): any {
+  if (typeof mapping === 'string') {
+    return resolvePath(state, mapping);
+  }
+  if (Array.isArray(mapping)) {
+    return mapping.map(item => resolveMapping(state, item));
+  }
+  return Object.fromEntries(Object.entries(mapping).map(([key, item]) => [key, resolveMapping(state, item)]));
+}
+
+function evaluateCondition(state: Record<string, any>, condition: IPipelineCondition): boolean {
+  const actual = resolvePath(state, condition.path);
+  const { value } = condition;
+
+  switch (condition.operator) {
+    case 'exists':
+      return actual !== undefined && actual !== null;
+    case 'notExists':
+      return actual === undefined || actual === null;
+    case 'equals':
+      return JSON.stringify(actual) === JSON.stringify(value);
+    case 'notEquals':
+      return JSON.stringify(actual) !== JSON.stringify(value);
+    case 'gt':
+      return actual > value;
+    case 'gte':
+      return actual >= value;
+    case 'lt':
+      return actual < value;
+    case 'lte':
+      return actual <= value;
+    case 'in':
+      return (value as any[]).some(item => JSON.stringify(item) === JSON.stringify(actual));
+  }
+}
+
+function shouldRun(state: Record<string, any>, step: IPipelineStep): boolean {
+  return !step.when || ([] as IPipelineCondition[]).concat(step.when).every(condition => evaluateCondition(state, condition));
+}
+
+async function runStep(
+  definition: IPipelineDefinition,
+  step: IPipelineStep,
+  state: Record<string, any>,
+  runner: PipelineStepRunner,
+  context?: IExecutionContext
+): Promise<any> {
+  const parameters = { ...step.parameters };
+  for (const [name, mapping] of Object.entries(step.map || {})) {
+    parameters[name] = resolveMapping(state, mapping);
+  }
+
+  try {
+    return await runner({
+      pipeline: definition.name,
+      stepId: step.id,
+      functionName: step.function!,
+      functionVersion: step.version,
+      parameters,
+      context,
+    });
+  } catch (error) {
+    throw new PipelineStepError(definition.name, step.id, error);
+  }
+}
+
+// Runs the steps in order. Each step sees the pipeline's parameters as "input" and the
+// output of every earlier step under its id. A failed step fails the pipeline.
+export async function runPipeline(
+  definition: IPipelineDefinition,
+  parameters: Record<string, any>,
+  runner: PipelineStepRunner,
+  context?: IExecutionContext
+): Promise<any> {
+  const log = context?.logger || logger;
+  const depth = (context?.metadata?.pipelineDepth || 0) + 1;
+  if (depth > MAX_PIPELINE_DEPTH) {
+    throw new Error(`Pipeline ${definition.name} is nested more than ${MAX_PIPELINE_DEPTH} levels deep`);
+  }
+  // Pipelines called as steps run inline with this context, one level deeper
+  context = context && { ...context, metadata: { ...context.metadata, pipelineDepth: depth } };
+
+  const state: Record<string, any> = { [INPUT_ROOT]: parameters };
+  const outputs: Record<string, any> = {};
+
+  for (const step of definition.steps) {
+    if (!shouldRun(state, step)) {
+      log.info(`Pipeline ${definition.name}: skipping step ${step.id}`);
+      continue;
+    }
+
+    if (step.parallel) {
+      // Conditions of the branches see the state from before the group
+      const branches = step.parallel.filter(branch => shouldRun(state, branch));
+      log.info(`Pipeline ${definition.name}: running ${branches.map(branch => branch.id).join(', ')} in parallel`);
+
+      const results = await Promise.all(branches.map(branch => runStep(definition, branch, state, runner, context)));
+      branches.forEach((branch, index) => {
+        state[branch.id] = results[index];
+      });
+      state[step.id] = outputs[step.id] = Object.fromEntries(branches.map((branch, index) => [branch.id, results[index]]));
+    } else {
+      log.info(`Pipeline ${definition.name}: running step ${step.id} (${step.function})`);
+      state[step.id] = outputs[step.id] = await runStep(definition, step, state, runner, context);
+    }
+  }
+
+  return definition.output === undefined ? outputs : resolveMapping(state, definition.output);
+}
+
+export function createPipelineFunction(definition: IPipelineDefinition, runner: PipelineStepRunner): ICustomFunction {
+  const { steps, output, ...functionDefinition } = definition;
+  return {
+    definition: { ...functionDefinition, type: FunctionType.PIPELINE },
+    handler: (parameters, context) => runPipeline(definition, parameters, runner, context),
+  };
+}
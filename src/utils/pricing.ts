@@ -0,0 +1,76 @@
+import fs from 'fs';
+import { config } from '../config/index.js';
+import { logger } from './logger.js';
+import { LLMProvider } from '../types/index.js';
+
+// USD per million tokens
+export interface IModelPrice {
+  input: number;
+  output: number;
+}
+
+// List prices at the time of writing; override or extend them with LLM_PRICES_FILE
+export const DEFAULT_PRICES: Record<string, IModelPrice> = {
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-3-sonnet': { input: 3, output: 15 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'gemini-pro': { input: 0.5, output: 1.5 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+};
+
+// Self-hosted and scripted models cost nothing per token unless priced explicitly
+const FREE_PROVIDERS = [LLMProvider.OPENAI_COMPATIBLE, LLMProvider.OLLAMA, LLMProvider.MOCK];
+
+let priceTable: Record<string, IModelPrice> | null = null;
+const unpricedModels = new Set<string>();
+
+export function getPriceTable(): Record<string, IModelPrice> {
+  if (!priceTable) {
+    priceTable = { ...DEFAULT_PRICES };
+    if (config.usage.pricesFile) {
+      try {
+        Object.assign(priceTable, JSON.parse(fs.readFileSync(config.usage.pricesFile, 'utf8')));
+      } catch (error) {
+        logger.error(`Failed to load LLM prices from ${config.usage.pricesFile}:`, error);
+      }
+    }
+  }
+  return priceTable;
+}
+
+// Dated model names ("claude-3-sonnet-20240229") use the longest matching prefix
+export function getModelPrice(model: string): IModelPrice | undefined {
+  const prices = getPriceTable();
+  if (prices[model]) {
+    return prices[model];
+  }
+
+  const prefix = Object.keys(prices)
+    .filter(candidate => model.startsWith(candidate))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : undefined;
+}
+
+export function calculateCost(
+  provider: LLMProvider,
+  model: string,
+  usage: { inputTokens: number; outputTokens: number }
+): number {
+  const price = getModelPrice(model);
+  if (!price) {
+    if (!FREE_PROVIDERS.includes(provider) && !unpricedModels.has(model)) {
+      unpricedModels.add(model);
+      logger.warn(`No price configured for model ${model}; its usage is recorded at no cost`);
+    }
+    return 0;
+  }
+
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
@@ -0,0 +1,28 @@
+import { Redis } from 'ioredis';
+import { config } from '../config/index.js';
+import { logger } from './logger.js';
+
+let client: Redis | null = null;
+
+// Shared connection for the Redis-backed stores (BullMQ manages its own connections)
+export function getRedisClient(): Redis {
+  if (!client) {
+    client = new Redis(config.redis.url, {
+      maxRetriesPerRequest: 3,
+      retryStrategy: (times: number) => Math.min(times * 100, 3000),
+    });
+
+    client.on('error', (error: Error) => {
+      logger.error('Redis client error:', error);
+    });
+  }
+
+  return client;
+}
+
+export async function closeRedisClient(): Promise<void> {
+  if (client) {
+    await client.quit();
+    client = null;
+  }
+}
@@ -0,0 +1,209 @@
+import path from 'path';
+import { fork, ChildProcess } from 'child_process';
+import { Worker } from 'worker_threads';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { logger } from './logger.js';
+import { config } from '../config/index.js';
+import { toAbortError } from './abort.js';
+import { IExecutionContext, IFunctionIsolation } from '../types/index.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// sandboxRunner.ts under tsx, sandboxRunner.js once built
+const RUNNER_PATH = path.join(__dirname, `sandboxRunner${path.extname(__filename)}`);
+
+// Worker threads do not inherit tsx's loader from the parent, so TypeScript
+// sources need it registered before the runner is imported
+const WORKER_BOOTSTRAP = `
+const { workerData } = require('worker_threads');
+(workerData.typescript ? import('tsx/esm/api').then(api => api.register()) : Promise.resolve())
+  .then(() => import(workerData.runner));
+`;
+
+// Exit code of a V8 abort, which is how a process reports running out of heap
+const ABORT_EXIT_CODE = 134;
+
+export interface ISandboxExecuteMessage {
+  type: 'execute';
+  filePath: string;
+  name: string;
+  version: string;
+  parameters: Record<string, any>;
+  context?: Pick<IExecutionContext, 'jobId' | 'userId' | 'sessionId' | 'metadata'>;
+}
+
+export type SandboxMessage =
+  | ISandboxExecuteMessage
+  | { type: 'log'; level: string; message: string; meta?: unknown }
+  | { type: 'busy'; activeMs: number }
+  | { type: 'result'; result: any }
+  | { type: 'error'; error: { name: string; message: string; stack?: string } };
+
+export interface ISandboxRequest {
+  filePath: string;
+  name: string;
+  version: string;
+  parameters: Record<string, any>;
+  isolation: IFunctionIsolation;
+  context?: IExecutionContext;
+  // Aborting kills the sandbox; executeFunction aborts on timeout and cancellation
+  signal?: AbortSignal;
+}
+
+export class SandboxLimitError extends Error {
+  public readonly limit: 'memory' | 'cpu';
+
+  constructor(limit: 'memory' | 'cpu', message: string) {
+    super(message);
+    this.name = 'SandboxLimitError';
+    this.limit = limit;
+  }
+}
+
+// The same protocol over a worker thread or a child process
+interface ISandbox {
+  send(message: SandboxMessage): void;
+  kill(): void;
+  onMessage(listener: (message: SandboxMessage) => void): void;
+  // Called when the sandbox dies before reporting a result
+  onExit(listener: (error: Error) => void): void;
+}
+
+function startWorker(request: ISandboxRequest, maxMemoryMb: number): ISandbox {
+  const worker = new Worker(WORKER_BOOTSTRAP, {
+    eval: true,
+    workerData: {
+      runner: pathToFileURL(RUNNER_PATH).href,
+      typescript: RUNNER_PATH.endsWith('.ts') || request.filePath.endsWith('.ts'),
+    },
+    resourceLimits: { maxOldGenerationSizeMb: maxMemoryMb },
+  });
+
+  return {
+    send: message => worker.postMessage(message),
+    kill: () => {
+      worker.terminate().catch(() => undefined);
+    },
+    onMessage: listener => worker.on('message', listener),
+    onExit: listener => {
+      worker.on('error', (error: Error & { code?: string }) => listener(
+        error.code === 'ERR_WORKER_OUT_OF_MEMORY'
+          ? new SandboxLimitError('memory', `Function ${request.name} exceeded its memory limit of ${maxMemoryMb} MB`)
+          : error
+      ));
+      worker.on('exit', code => listener(new Error(`Sandbox worker for ${request.name} exited with code ${code}`)));
+    },
+  };
+}
+
+function startProcess(request: ISandboxRequest, maxMemoryMb: number): ISandbox {
+  const child: ChildProcess = fork(RUNNER_PATH, [], {
+    execArgv: [...process.execArgv, `--max-old-space-size=${maxMemoryMb}`],
+    serialization: 'advanced',
+  });
+
+  return {
+    send: message => {
+      child.send(message);
+    },
+    kill: () => {
+      child.kill('SIGKILL');
+    },
+    onMessage: listener => child.on('message', message => listener(message as SandboxMessage)),
+    onExit: listener => {
+      child.on('error', listener);
+      child.on('exit', (code, signal) => listener(
+        code === ABORT_EXIT_CODE || signal === 'SIGABRT'
+          ? new SandboxLimitError('memory', `Function ${request.name} exceeded its memory limit of ${maxMemoryMb} MB`)
+          : new Error(`Sandbox process for ${request.name} exited with ${signal || `code ${code}`}`)
+      ));
+    },
+  };
+}
+
+// Runs a function handler in a worker thread or a child process, so an infinite loop,
+// a leak or a crash only takes down the sandbox. The sandbox is killed outright when the
+// signal aborts or a limit is hit; handlers get no chance to clean up.
+export function runInSandbox(request: ISandboxRequest): Promise<any> {
+  const { isolation, signal } = request;
+  const maxMemoryMb = isolation.maxMemoryMb || config.functions.sandbox.maxMemoryMb;
+  const maxCpuMs = isolation.maxCpuMs ?? config.functions.sandbox.maxCpuMs;
+
+  if (signal?.aborted) {
+    return Promise.reject(toAbortError(signal));
+  }
+
+  const sandbox = isolation.mode === 'process'
+    ? startProcess(request, maxMemoryMb)
+    : startWorker(request, maxMemoryMb);
+
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    // The handler's busy time as last reported, and when. Accounting starts with the first
+    // report, so the sandbox's own startup does not count.
+    let busy: { activeMs: number; at: number } | null = null;
+
+    // A handler stuck in a synchronous loop stops reporting, so the time since its last
+    // report counts as busy
+    const cpuCheck = setInterval(() => {
+      if (maxCpuMs > 0 && busy && busy.activeMs + (Date.now() - busy.at) > maxCpuMs) {
+        finish(new SandboxLimitError('cpu', `Function ${request.name} exceeded its CPU time limit of ${maxCpuMs} ms`));
+      }
+    }, 50);
+
+    const finish = (error: Error | null, result?: any) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearInterval(cpuCheck);
+      signal?.removeEventListener('abort', onAbort);
+      sandbox.kill();
+      if (error) {
+        reject(error);
+      } else {
+        resolve(result);
+      }
+    };
+
+    const onAbort = () => finish(toAbortError(signal!));
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    sandbox.onMessage(message => {
+      switch (message.type) {
+        case 'busy':
+          busy = { activeMs: message.activeMs, at: Date.now() };
+          break;
+        case 'log': {
+          const log = request.context?.logger || logger;
+          (log[message.level] || log.info).call(log, `[${request.name}] ${message.message}`, message.meta);
+          request.context?.onLog?.(`${message.level}: ${message.message}`);
+          break;
+        }
+        case 'result':
+          finish(null, message.result);
+          break;
+        case 'error':
+          finish(Object.assign(new Error(message.error.message), message.error));
+          break;
+      }
+    });
+
+    sandbox.onExit(error => finish(error));
+
+    sandbox.send({
+      type: 'execute',
+      filePath: request.filePath,
+      name: request.name,
+      version: request.version,
+      parameters: request.parameters,
+      context: request.context && {
+        jobId: request.context.jobId,
+        userId: request.context.userId,
+        sessionId: request.context.sessionId,
+        metadata: request.context.metadata,
+      },
+    });
+  });
+}
@@ -0,0 +1,101 @@
+// Entry point of a function sandbox, run in a worker thread or a forked process by
+// runInSandbox. It imports the function file, runs the handler once and reports logs,
+// busy time and the result back to the parent.
+import { parentPort } from 'worker_threads';
+import { pathToFileURL } from 'url';
+import { performance } from 'perf_hooks';
+import util from 'util';
+import semver from 'semver';
+import type { ISandboxExecuteMessage, SandboxMessage } from './sandbox.js';
+
+const BUSY_REPORT_INTERVAL_MS = 100;
+
+function send(message: SandboxMessage): void {
+  if (parentPort) {
+    parentPort.postMessage(message);
+  } else {
+    process.send?.(message);
+  }
+}
+
+// Log metadata has to survive structured cloning
+function toCloneable(value: unknown): unknown {
+  try {
+    return JSON.parse(JSON.stringify(value, (_key, entry) =>
+      entry instanceof Error ? { name: entry.name, message: entry.message, stack: entry.stack } : entry
+    ));
+  } catch {
+    return util.inspect(value);
+  }
+}
+
+function log(level: string, message: unknown, meta: unknown[]): void {
+  send({
+    type: 'log',
+    level,
+    message: typeof message === 'string' ? message : util.inspect(message),
+    meta: meta.length > 0 ? toCloneable(meta.length === 1 ? meta[0] : meta) : undefined,
+  });
+}
+
+const logger = {
+  debug: (message: unknown, ...meta: unknown[]) => log('debug', message, meta),
+  info: (message: unknown, ...meta: unknown[]) => log('info', message, meta),
+  warn: (message: unknown, ...meta: unknown[]) => log('warn', message, meta),
+  error: (message: unknown, ...meta: unknown[]) => log('error', message, meta),
+};
+
+// Handlers that print instead of using context.logger are captured as well
+console.log = (...args: unknown[]) => log('info', util.format(...args), []);
+console.info = console.log;
+console.debug = (...args: unknown[]) => log('debug', util.format(...args), []);
+console.warn = (...args: unknown[]) => log('warn', util.format(...args), []);
+console.error = (...args: unknown[]) => log('error', util.format(...args), []);
+
+async function execute(message: ISandboxExecuteMessage): Promise<void> {
+  const start = performance.eventLoopUtilization();
+  const reportBusy = () => send({ type: 'busy', activeMs: performance.eventLoopUtilization(start).active });
+  reportBusy();
+  setInterval(reportBusy, BUSY_REPORT_INTERVAL_MS).unref();
+
+  try {
+    const functionModule = await import(pathToFileURL(message.filePath).href);
+    const func = functionModule.default;
+    const version = semver.valid(func?.definition?.version || '1.0.0');
+
+    if (func?.definition?.name !== message.name || version !== message.version || typeof func.handler !== 'function') {
+      throw new Error(
+        `${message.filePath} no longer defines ${message.name}@${message.version}; ` +
+        'isolated versions need a file of their own'
+      );
+    }
+
+    // The parent hard-kills the sandbox on timeout or cancellation, so this signal never fires
+    const result = await func.handler(message.parameters, {
+      ...message.context,
+      logger,
+      signal: new AbortController().signal,
+    });
+
+    send({ type: 'result', result });
+  } catch (error) {
+    send({
+      type: 'error',
+      error: error instanceof Error
+        ? { name: error.name, message: error.message, stack: error.stack }
+        : { name: 'Error', message: String(error) },
+    });
+  }
+}
+
+const onMessage = (message: SandboxMessage) => {
+  if (message.type === 'execute') {
+    execute(message);
+  }
+};
+
+if (parentPort) {
+  parentPort.on('message', onMessage);
+} else {
+  process.on('message', onMessage);
+}
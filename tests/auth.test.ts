@@ -0,0 +1,81 @@
+import jwt from 'jsonwebtoken';
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import { config } from '../src/config';
+import { AuthError, authenticateCredentials, getRequiredRole, hasRole } from '../src/middleware/auth';
+
+describe('route roles', () => {
+  it.each([
+    ['GET', '/api/llm/instances', 'admin'],
+    ['GET', '/api/usage', 'admin'],
+    ['PUT', '/api/quotas/user/alice', 'admin'],
+    ['DELETE', '/api/messages/dead-letter', 'admin'],
+    ['GET', '/api/messages/dead-letter', 'operator'],
+    ['POST', '/api/chat', 'viewer'],
+    ['POST', '/api/chat/stream', 'viewer'],
+    ['GET', '/api/conversations/session-1', 'viewer'],
+    ['GET', '/api/functions', 'viewer'],
+    ['POST', '/api/functions/reload', 'operator'],
+    ['GET', '/api/jobs/job-1', 'viewer'],
+    ['DELETE', '/api/jobs/job-1', 'operator'],
+    ['POST', '/v1/chat/completions', 'viewer'],
+  ])('%s %s needs the %s role', (method, path, role) => {
+    expect(getRequiredRole(method, path)).toBe(role);
+  });
+
+  it('matches paths regardless of case, like Express', () => {
+    expect(getRequiredRole('GET', '/API/LLM/instances')).toBe('admin');
+  });
+
+  it('leaves health checks and static files public', () => {
+    expect(getRequiredRole('GET', '/health')).toBeUndefined();
+    expect(getRequiredRole('GET', '/index.html')).toBeUndefined();
+  });
+
+  it('ranks roles', () => {
+    expect(hasRole({ id: 'alice', role: 'admin', authMethod: 'jwt' }, 'operator')).toBe(true);
+    expect(hasRole({ id: 'bob', role: 'viewer', authMethod: 'jwt' }, 'operator')).toBe(false);
+    expect(hasRole(undefined, 'viewer')).toBe(false);
+  });
+});
+
+describe('credentials', () => {
+  const { authEnabled, jwtSecret } = config.security;
+
+  beforeAll(() => {
+    config.security.authEnabled = true;
+    config.security.jwtSecret = 'test-secret';
+  });
+
+  afterAll(() => {
+    config.security.authEnabled = authEnabled;
+    config.security.jwtSecret = jwtSecret;
+  });
+
+  it('resolves a signed token to its subject and role', () => {
+    const token = jwt.sign({ sub: 'alice', role: 'operator', tenantId: 'acme' }, 'test-secret');
+
+    expect(authenticateCredentials({ token })).toEqual({
+      id: 'alice',
+      role: 'operator',
+      tenantId: 'acme',
+      authMethod: 'jwt',
+    });
+  });
+
+  it('gives tokens without a role the viewer role', () => {
+    const token = jwt.sign({ sub: 'alice' }, 'test-secret');
+
+    expect(authenticateCredentials({ token }).role).toBe('viewer');
+  });
+
+  it('rejects tokens with an unknown role or the wrong signature', () => {
+    expect(() => authenticateCredentials({ token: jwt.sign({ sub: 'alice', role: 'root' }, 'test-secret') }))
+      .toThrow('Invalid token: unknown role root');
+    expect(() => authenticateCredentials({ token: jwt.sign({ sub: 'alice' }, 'other-secret') }))
+      .toThrow(AuthError);
+  });
+
+  it('requires credentials', () => {
+    expect(() => authenticateCredentials({})).toThrow('Authentication required');
+  });
+});
@@ -0,0 +1,82 @@
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import { FunctionsManager } from '../src/modules/FunctionsManager';
+import { InMemoryFunctionRouteStore } from '../src/modules/FunctionRouteStore';
+import { FunctionType, ICustomFunction } from '../src/types';
+
+function createVersion(version: string): ICustomFunction {
+  return {
+    definition: {
+      name: 'greet',
+      description: 'Greets someone',
+      type: FunctionType.HELPER,
+      version,
+      parameters: [{ name: 'name', type: 'string', description: 'Who to greet', required: true }],
+    },
+    handler: async params => `${version}: Hello ${params.name}`,
+  };
+}
+
+describe('function versions', () => {
+  let functionsManager: FunctionsManager;
+
+  beforeAll(async () => {
+    functionsManager = new FunctionsManager(new InMemoryFunctionRouteStore());
+    await functionsManager.initialize();
+    for (const version of ['1.0.0', '1.2.0', '2.0.0-beta.1', 'v1.1.0']) {
+      functionsManager.addFunction(createVersion(version));
+    }
+  });
+
+  afterAll(async () => {
+    await functionsManager.shutdown();
+  });
+
+  it('uses the latest release without a route and keeps every version', () => {
+    expect(functionsManager.getFunction('greet')?.definition.version).toBe('1.2.0');
+    expect(functionsManager.getFunctionVersions('greet').map(func => func.definition.version)).toEqual([
+      '2.0.0-beta.1', '1.2.0', '1.1.0', '1.0.0',
+    ]);
+  });
+
+  it('runs the version a job was pinned to', async () => {
+    await expect(functionsManager.executeFunction('greet', { name: 'Ada' }, undefined, '1.0.0')).resolves.toBe(
+      '1.0.0: Hello Ada'
+    );
+  });
+
+  it('follows the version range of its route', async () => {
+    await functionsManager.setFunctionRoute('greet', { version: '~1.1' });
+
+    expect(functionsManager.getFunction('greet')?.definition.version).toBe('1.1.0');
+    await functionsManager.deleteFunctionRoute('greet');
+  });
+
+  it('rejects routes no version matches', async () => {
+    await expect(functionsManager.setFunctionRoute('greet', { version: '^3' })).rejects.toThrow(
+      'No version of function greet matches ^3'
+    );
+    await expect(functionsManager.setFunctionRoute('greet', { canary: { version: '2.0.0-beta.1', percentage: 150 } }))
+      .rejects.toThrow('canary.percentage must be between 0 and 100');
+  });
+
+  it('sends the canary share of calls to the canary version, the same way for a routing key', async () => {
+    await functionsManager.setFunctionRoute('greet', { canary: { version: '2.0.0-beta.1', percentage: 100 } });
+    expect(functionsManager.resolveFunction('greet', 'user-1')?.definition.version).toBe('2.0.0-beta.1');
+
+    await functionsManager.setFunctionRoute('greet', { canary: { version: '2.0.0-beta.1', percentage: 0 } });
+    expect(functionsManager.resolveFunction('greet', 'user-1')?.definition.version).toBe('1.2.0');
+
+    await functionsManager.setFunctionRoute('greet', { canary: { version: '2.0.0-beta.1', percentage: 50 } });
+    const versions = new Set(
+      Array.from({ length: 5 }, () => functionsManager.resolveFunction('greet', 'user-1')?.definition.version)
+    );
+    expect(versions.size).toBe(1);
+    await functionsManager.deleteFunctionRoute('greet');
+  });
+
+  it('removes one version at a time', () => {
+    expect(functionsManager.removeFunction('greet', '1.2.0')).toBe(true);
+
+    expect(functionsManager.getFunction('greet')?.definition.version).toBe('1.1.0');
+  });
+});
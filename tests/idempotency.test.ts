@@ -0,0 +1,79 @@
+import { describe, expect, it } from '@jest/globals';
+import { IdempotencyManager, InMemoryIdempotencyStore } from '../src/modules/IdempotencyManager';
+import { IIncomingMessage, IOutgoingMessage } from '../src/types';
+
+function createMessage(id: string, metadata?: Record<string, any>): IIncomingMessage {
+  return { id, content: 'Hello', timestamp: new Date(), metadata };
+}
+
+function createReply(content: string): IOutgoingMessage {
+  return { id: `reply-${content}`, content, timestamp: new Date(), metadata: { isResponse: true } };
+}
+
+describe('idempotent message processing', () => {
+  it('hands a redelivered message the reply of the completed one', async () => {
+    const idempotency = new IdempotencyManager(new InMemoryIdempotencyStore());
+    const message = createMessage('message-1');
+
+    expect(await idempotency.claim(message)).toBeNull();
+    await idempotency.complete(message, createReply('Hi'));
+
+    expect(await idempotency.claim(message)).toMatchObject({
+      status: 'completed',
+      messageId: 'message-1',
+      response: { content: 'Hi' },
+    });
+  });
+
+  it('reports a message that is still being processed, even to another instance', async () => {
+    const store = new InMemoryIdempotencyStore();
+    const first = new IdempotencyManager(store);
+    const second = new IdempotencyManager(store);
+    const message = createMessage('message-1');
+
+    expect(await first.claim(message)).toBeNull();
+    expect(await first.claim(message)).toMatchObject({ status: 'processing' });
+    expect(await second.claim(message)).toMatchObject({ status: 'processing' });
+
+    await first.release(message);
+  });
+
+  it('processes a message again after its claim was released', async () => {
+    const idempotency = new IdempotencyManager(new InMemoryIdempotencyStore());
+    const message = createMessage('message-1');
+
+    await idempotency.claim(message);
+    await idempotency.release(message);
+
+    expect(await idempotency.claim(message)).toBeNull();
+    await idempotency.release(message);
+  });
+
+  it('only lets the owner of a claim release it', async () => {
+    const store = new InMemoryIdempotencyStore();
+    const owner = new IdempotencyManager(store);
+    const other = new IdempotencyManager(store);
+    const message = createMessage('message-1');
+
+    await owner.claim(message);
+    await other.release(message);
+
+    expect(await other.claim(message)).toMatchObject({ status: 'processing' });
+    await owner.release(message);
+  });
+
+  it('deduplicates by idempotency key within a tenant', async () => {
+    const idempotency = new IdempotencyManager(new InMemoryIdempotencyStore());
+    const first = createMessage('message-1', { idempotencyKey: 'order-42', tenantId: 'acme' });
+
+    await idempotency.claim(first);
+    await idempotency.complete(first, createReply('Done'));
+
+    const resent = createMessage('message-2', { idempotencyKey: 'order-42', tenantId: 'acme' });
+    expect(await idempotency.claim(resent)).toMatchObject({ status: 'completed', messageId: 'message-1' });
+
+    const otherTenant = createMessage('message-3', { idempotencyKey: 'order-42', tenantId: 'globex' });
+    expect(await idempotency.claim(otherTenant)).toBeNull();
+    await idempotency.release(otherTenant);
+  });
+});
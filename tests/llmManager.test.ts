@@ -0,0 +1,72 @@
+import { describe, expect, it } from '@jest/globals';
+import { LastRouteInstanceError, LLMManager } from '../src/modules/LLMManager';
+import { LLMProvider } from '../src/types';
+
+function createMockInstance(llmManager: LLMManager): string {
+  return llmManager.createInstance({ provider: LLMProvider.MOCK, apiKey: '', model: 'mock' });
+}
+
+describe('LLM routes', () => {
+  it('keeps the last instance of every route', () => {
+    const llmManager = new LLMManager();
+    const only = createMockInstance(llmManager);
+    const shared = createMockInstance(llmManager);
+    llmManager.createRoute('primary', [only]);
+    llmManager.createRoute('fallback', [only, shared]);
+
+    expect(() => llmManager.deleteInstance(only)).toThrow(LastRouteInstanceError);
+    expect(llmManager.getInstance(only)).toBeDefined();
+
+    llmManager.deleteRoute('primary');
+    expect(llmManager.deleteInstance(only)).toBe(true);
+    expect(llmManager.getRoute('fallback')?.instanceIds).toEqual([shared]);
+  });
+
+  it('names every route an instance is the last one of', () => {
+    const llmManager = new LLMManager();
+    const instanceId = createMockInstance(llmManager);
+    llmManager.createRoute('chat', [instanceId]);
+    llmManager.createRoute('summaries', [instanceId]);
+
+    let error: unknown;
+    try {
+      llmManager.deleteInstance(instanceId);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(LastRouteInstanceError);
+    expect(error).toMatchObject({ routes: ['chat', 'summaries'] });
+  });
+
+  it('rejects routes without existing instances', () => {
+    const llmManager = new LLMManager();
+
+    expect(() => llmManager.createRoute('empty', [])).toThrow('Route empty needs existing instances');
+    expect(() => llmManager.createRoute('missing', ['unknown'])).toThrow('unknown: unknown');
+  });
+});
+
+describe('LLM health', () => {
+  it('is unhealthy when a route has no reachable instance', async () => {
+    const llmManager = new LLMManager();
+    // Nothing listens on port 1, so the probe fails right away
+    const unreachable = llmManager.createInstance({
+      provider: LLMProvider.OLLAMA,
+      apiKey: '',
+      baseURL: 'http://127.0.0.1:1',
+      model: 'llama3.1',
+    });
+    const mock = createMockInstance(llmManager);
+    llmManager.createRoute('fallback', [unreachable, mock]);
+
+    let health = await llmManager.getHealthStatus();
+    expect(health.status).toBe('healthy');
+    expect(health.checks?.find(check => check.name === unreachable)?.status).toBe('unhealthy');
+
+    llmManager.createRoute('local', [unreachable]);
+    health = await llmManager.getHealthStatus();
+    expect(health.status).toBe('unhealthy');
+    expect(health.details).toContain('Routes without a reachable instance: local');
+  });
+});
@@ -0,0 +1,143 @@
+import { afterAll, beforeAll, describe, expect, it, jest } from '@jest/globals';
+
+interface IPublished {
+  exchange: string;
+  routingKey: string;
+  content: Buffer;
+  options: Record<string, any>;
+}
+
+// Stands in for RabbitMQ: records what is published and acked, and lets the test deliver
+// messages to the consumer. Queue TTLs are simulated by delivering the published copy.
+class FakeBroker {
+  public published: IPublished[] = [];
+  public acked: unknown[] = [];
+  public consumer: ((msg: any) => Promise<void>) | null = null;
+
+  public connect = async () => ({
+    createConfirmChannel: async () => this.createChannel(),
+    createChannel: async () => this.createChannel(),
+    on: () => undefined,
+    close: async () => undefined,
+  });
+
+  private createChannel() {
+    return {
+      assertExchange: async () => ({}),
+      assertQueue: async () => ({}),
+      bindQueue: async () => ({}),
+      prefetch: async () => undefined,
+      consume: async (_queue: string, consumer: (msg: any) => Promise<void>) => {
+        this.consumer = consumer;
+        return { consumerTag: 'test' };
+      },
+      publish: (exchange: string, routingKey: string, content: Buffer, options: Record<string, any>, callback?: (error: Error | null) => void) => {
+        this.published.push({ exchange, routingKey, content, options });
+        callback?.(null);
+        return true;
+      },
+      waitForConfirms: async () => undefined,
+      ack: (msg: unknown) => this.acked.push(msg),
+      nack: () => undefined,
+      close: async () => undefined,
+      on: () => undefined,
+    };
+  }
+
+  public async deliver(content: Buffer, properties: Record<string, any>): Promise<void> {
+    await this.consumer!({ content, properties: { headers: {}, ...properties }, fields: {} });
+  }
+}
+
+const broker = new FakeBroker();
+jest.unstable_mockModule('amqplib', () => ({ default: { connect: broker.connect }, connect: broker.connect }));
+
+const { config } = await import('../src/config');
+const { AgentMaster } = await import('../src/modules/AgentMaster');
+const { FunctionsManager } = await import('../src/modules/FunctionsManager');
+const { MessageInProgressError } = await import('../src/modules/IdempotencyManager');
+const { JobsQueueManager } = await import('../src/modules/JobsQueueManager');
+
+describe('failed orchestration of a queued message', () => {
+  let agentMaster: InstanceType<typeof AgentMaster>;
+
+  beforeAll(async () => {
+    const functionsManager = new FunctionsManager();
+    const jobs = { initialize: async () => undefined, shutdown: async () => undefined };
+    agentMaster = new AgentMaster({ functionsManager, jobsQueueManager: jobs as unknown as InstanceType<typeof JobsQueueManager> });
+
+    // Every LLM call fails, like during a provider outage
+    const llmManager = agentMaster.getLLMManager();
+    jest.spyOn(llmManager, 'generateChat').mockRejectedValue(new Error('LLM unavailable'));
+    jest.spyOn(llmManager, 'streamResponse').mockImplementation(async function* () {
+      throw new Error('LLM unavailable');
+    });
+
+    // The consumer is set up once initialization has connected to the broker
+    for (let wait = 0; !broker.consumer && wait < 100; wait++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+  });
+
+  afterAll(async () => {
+    await agentMaster.shutdown();
+  });
+
+  it('is retried through the delay queues and dead-lettered after the last attempt', async () => {
+    const body = Buffer.from(JSON.stringify({
+      id: 'message-1',
+      content: 'Hello',
+      timestamp: new Date().toISOString(),
+      metadata: { userId: 'tester' },
+    }));
+
+    let delivery = { content: body, properties: { messageId: 'message-1', headers: {} as Record<string, any> } };
+    const retryQueues: string[] = [];
+
+    for (let attempt = 1; attempt <= config.rabbitmq.maxAttempts; attempt++) {
+      broker.published = [];
+      await broker.deliver(delivery.content, delivery.properties);
+
+      const copy = broker.published.find(published => published.exchange === '' || published.exchange === 'agent_dead_letter_exchange');
+      expect(copy).toBeDefined();
+
+      if (attempt < config.rabbitmq.maxAttempts) {
+        // No error reply while attempts are left
+        expect(broker.published.filter(published => published.exchange === 'agent_outgoing_exchange')).toHaveLength(0);
+        expect(copy!.exchange).toBe('');
+        expect(copy!.options.headers['x-retry-count']).toBe(attempt);
+        retryQueues.push(copy!.routingKey);
+        delivery = { content: copy!.content, properties: copy!.options as any };
+      } else {
+        expect(copy!.exchange).toBe('agent_dead_letter_exchange');
+        expect(copy!.options.headers['x-dead-letter-reason']).toBe('max_attempts');
+        expect(copy!.options.headers['x-retry-count']).toBe(config.rabbitmq.maxAttempts);
+
+        const replies = broker.published.filter(published => published.exchange === 'agent_outgoing_exchange');
+        expect(replies).toHaveLength(1);
+        expect(JSON.parse(replies[0].content.toString()).metadata.error).toBe(true);
+      }
+    }
+
+    // Each attempt waits in the queue of its own backoff step
+    expect(new Set(retryQueues).size).toBe(config.rabbitmq.maxAttempts - 1);
+    expect(broker.acked).toHaveLength(config.rabbitmq.maxAttempts);
+  });
+
+  it('waits out a copy of a message still being processed without using up an attempt', async () => {
+    // Stands in for a duplicate of a message another delivery is still working on
+    agentMaster.getMessagingManager().registerMessageHandler('orchestration', async message => {
+      throw new MessageInProgressError(message.id);
+    });
+
+    const body = Buffer.from(JSON.stringify({ id: 'message-2', content: 'Hello', timestamp: new Date().toISOString() }));
+    broker.published = [];
+    await broker.deliver(body, { messageId: 'message-2', headers: { 'x-retry-count': 1 } });
+
+    expect(broker.published).toHaveLength(1);
+    const [copy] = broker.published;
+    expect(copy.exchange).toBe('');
+    expect(copy.routingKey).toBe(`${config.rabbitmq.queues.retry}_${config.rabbitmq.retryDelayMs}ms`);
+    expect(copy.options.headers['x-retry-count']).toBe(1);
+  });
+});
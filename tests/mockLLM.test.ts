@@ -0,0 +1,36 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it } from '@jest/globals';
+import { MockLLMClient, flushCassette, loadMockFixtures, recordCassetteEntry } from '../src/utils/mockLLM';
+import { ILLMMessage } from '../src/types';
+
+describe('LLM cassettes', () => {
+  const cassettePath = path.join(os.tmpdir(), `cassette-${process.pid}.json`);
+
+  afterEach(() => {
+    fs.rmSync(cassettePath, { force: true });
+  });
+
+  it('records responses that the mock provider replays', async () => {
+    const question: ILLMMessage[] = [{ role: 'user', content: 'What is the weather in Paris?' }];
+    const greeting: ILLMMessage[] = [{ role: 'user', content: 'Hello' }];
+
+    recordCassetteEntry(cassettePath, question, undefined, {
+      content: '',
+      toolCalls: [{ id: 'call-1', name: 'weather', arguments: { city: 'Paris' } }],
+    });
+    recordCassetteEntry(cassettePath, greeting, undefined, { content: 'Hi there' });
+    recordCassetteEntry(cassettePath, greeting, undefined, { content: 'Hello again' });
+    await flushCassette(cassettePath);
+
+    const fixtures = loadMockFixtures(cassettePath);
+    expect(fixtures.cassette).toHaveLength(2);
+
+    const client = new MockLLMClient(fixtures);
+    expect(client.respond(greeting, undefined, 'mock').content).toBe('Hello again');
+    expect(client.respond(question, undefined, 'mock').toolCalls).toEqual([
+      expect.objectContaining({ name: 'weather', arguments: { city: 'Paris' } }),
+    ]);
+  });
+});
@@ -0,0 +1,126 @@
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import { v4 as uuidv4 } from 'uuid';
+import { AgentMaster } from '../src/modules/AgentMaster';
+import { FunctionsManager } from '../src/modules/FunctionsManager';
+import { JobsQueueManager } from '../src/modules/JobsQueueManager';
+import { MessagingManager } from '../src/modules/MessagingManager';
+import { IIncomingMessage, IJobData } from '../src/types';
+
+// Runs jobs in-process instead of through BullMQ, so the test needs no Redis
+class InProcessJobs {
+  public readonly jobs = new Map<string, { data: IJobData; result: Promise<any> }>();
+
+  constructor(private functionsManager: FunctionsManager) {}
+
+  public async addJob(data: IJobData): Promise<string> {
+    const jobId = uuidv4();
+    const result = this.functionsManager.executeFunction(data.functionName, data.parameters, undefined, data.functionVersion);
+    // Observed through awaitJob
+    result.catch(() => undefined);
+    this.jobs.set(jobId, { data, result });
+    return jobId;
+  }
+
+  public async awaitJob(jobId: string): Promise<any> {
+    return this.jobs.get(jobId)!.result;
+  }
+
+  public async initialize(): Promise<void> {}
+  public async shutdown(): Promise<void> {}
+}
+
+// Stands in for RabbitMQ; replies go back to the HTTP caller, so nothing is sent
+class NoMessaging {
+  public readonly sent: unknown[] = [];
+
+  public async waitForConnection(): Promise<void> {}
+  public registerMessageHandler(): void {}
+  public async startListening(): Promise<void> {}
+  public async disconnect(): Promise<void> {}
+
+  public async sendMessage(message: unknown): Promise<void> {
+    this.sent.push(message);
+  }
+
+  public createOutgoingMessage(content: string, metadata?: Record<string, any>) {
+    return MessagingManager.prototype.createOutgoingMessage.call(this, content, metadata);
+  }
+}
+
+function createMessage(content: string): IIncomingMessage {
+  return { id: uuidv4(), content, timestamp: new Date(), metadata: { userId: 'tester' } };
+}
+
+describe('orchestration with the mock LLM provider', () => {
+  let functionsManager: FunctionsManager;
+  let jobs: InProcessJobs;
+  let agentMaster: AgentMaster;
+
+  beforeAll(async () => {
+    functionsManager = new FunctionsManager();
+    await functionsManager.reloadFunctions();
+    jobs = new InProcessJobs(functionsManager);
+    agentMaster = new AgentMaster({
+      functionsManager,
+      jobsQueueManager: jobs as unknown as JobsQueueManager,
+      messagingManager: new NoMessaging() as unknown as MessagingManager,
+    });
+  });
+
+  afterAll(async () => {
+    await agentMaster.shutdown();
+  });
+
+  it('runs the function the model calls and answers with its result', async () => {
+    const response = await agentMaster.processChatMessage(createMessage('What is the average of 4 and 9?'));
+
+    expect(response.status).toBe('success');
+    expect(response.response.content).toBe('The average is 6.5.');
+    expect(response.executedJobs).toHaveLength(1);
+
+    const job = jobs.jobs.get(response.executedJobs![0])!;
+    expect(job.data.functionName).toBe('mathUtils');
+    expect(job.data.parameters).toEqual({ operation: 'average', numbers: [4, 9] });
+    expect(response.steps).toEqual([
+      expect.objectContaining({ functionName: 'mathUtils', result: expect.objectContaining({ result: 6.5 }) }),
+    ]);
+  });
+
+  it('streams the final answer', async () => {
+    const deltas: string[] = [];
+    const response = await agentMaster.processChatMessage(
+      createMessage('What is the average of 4 and 9?'),
+      { onDelta: delta => deltas.push(delta) }
+    );
+
+    expect(response.response.content).toBe('The average is 6.5.');
+    expect(deltas.join('')).toBe('The average is 6.5.');
+  });
+
+  it('stops when the caller aborts', async () => {
+    const controller = new AbortController();
+    const deltas: string[] = [];
+    const response = await agentMaster.processChatMessage(
+      createMessage('Tell me a joke'),
+      {
+        onDelta: delta => {
+          deltas.push(delta);
+          controller.abort();
+        },
+        onReset: () => undefined,
+      },
+      undefined,
+      controller.signal
+    );
+
+    expect(response.status).toBe('failure');
+    expect(deltas).toHaveLength(1);
+  });
+
+  it('answers directly when no rule calls a function', async () => {
+    const response = await agentMaster.processChatMessage(createMessage('Tell me a joke'));
+
+    expect(response.response.content).toBe('I can only do math.');
+    expect(response.executedJobs).toEqual([]);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from '@jest/globals';
+import { findParametersError, validateParameters } from '../src/utils/parameterValidator';
+import { IFunctionParameter } from '../src/types';
+
+const parameters: IFunctionParameter[] = [
+  { name: 'count', type: 'integer', description: 'How many', required: true, minimum: 1, maximum: 10 },
+  { name: 'ratio', type: 'number', description: 'A ratio', required: false },
+  { name: 'enabled', type: 'boolean', description: 'A flag', required: false, default: false },
+  { name: 'operation', type: 'string', description: 'What to do', required: false, enum: ['add', 'subtract'] },
+  { name: 'code', type: 'string', description: 'A code', required: false, pattern: '^[A-Z]{3}$' },
+  {
+    name: 'numbers',
+    type: 'array',
+    description: 'Some numbers',
+    required: false,
+    minItems: 1,
+    items: { type: 'number', description: 'A number' },
+  },
+  {
+    name: 'options',
+    type: 'object',
+    description: 'Nested options',
+    required: false,
+    properties: [{ name: 'depth', type: 'integer', description: 'Depth', required: true }],
+  },
+];
+
+describe('parameter validation', () => {
+  it('coerces values whose type is unambiguous and applies defaults', () => {
+    const result = validateParameters(parameters, {
+      count: '3',
+      ratio: '0.5',
+      numbers: '[1, "2"]',
+      options: { depth: '4' },
+    });
+
+    expect(result.errors).toEqual([]);
+    expect(result.parameters).toEqual({
+      count: 3,
+      ratio: 0.5,
+      enabled: false,
+      numbers: [1, 2],
+      options: { depth: 4 },
+    });
+  });
+
+  it('matches string enums regardless of case and returns the declared value', () => {
+    const result = validateParameters(parameters, { count: 1, operation: 'ADD' });
+
+    expect(result.valid).toBe(true);
+    expect(result.parameters.operation).toBe('add');
+    expect(validateParameters(parameters, { count: 1, operation: 'multiply' }).errors).toEqual([
+      expect.objectContaining({ field: 'operation', message: 'must be one of: add, subtract' }),
+    ]);
+  });
+
+  it('reports one error per invalid field, including nested ones', () => {
+    const result = validateParameters(parameters, {
+      count: 11,
+      enabled: 'yes',
+      code: 'abc',
+      numbers: [1, 'two'],
+      options: {},
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map(error => `${error.field}: ${error.message}`)).toEqual([
+      'count: must be <= 10',
+      'enabled: must be of type boolean',
+      'code: must match pattern ^[A-Z]{3}$',
+      'numbers[1]: must be of type number',
+      'options.depth: is required',
+    ]);
+  });
+
+  it('requires required parameters', () => {
+    expect(validateParameters(parameters, {}).errors).toEqual([{ field: 'count', message: 'is required' }]);
+  });
+});
+
+describe('parameter declarations', () => {
+  it('accepts valid declarations', () => {
+    expect(findParametersError(parameters)).toBeUndefined();
+  });
+
+  it('rejects unknown types at any depth', () => {
+    expect(findParametersError([
+      { name: 'list', type: 'array', description: 'A list', required: true, items: { type: 'float' as any, description: 'An item' } },
+    ])).toBe('Parameter list[] has unknown type "float"; use one of string, number, integer, boolean, array, object');
+  });
+
+  it('rejects patterns that are not valid regular expressions', () => {
+    expect(findParametersError([
+      { name: 'code', type: 'string', description: 'A code', required: true, pattern: '([A-Z]' },
+    ])).toMatch(/^Parameter code has an invalid pattern/);
+  });
+});
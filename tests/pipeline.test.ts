@@ -0,0 +1,184 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import { parsePipeline, runPipeline } from '../src/utils/pipeline';
+import { FunctionsManager } from '../src/modules/FunctionsManager';
+import { logger } from '../src/utils/logger';
+import { IPipelineStepCall } from '../src/types';
+
+const source = `
+name: report
+description: Fetches a reading and describes it
+parameters:
+  - name: city
+    type: string
+    description: City
+    required: true
+  - name: detailed
+    type: boolean
+    description: Add details
+    required: false
+steps:
+  - id: reading
+    function: weather
+    map:
+      city: input.city
+  - id: details
+    function: describe
+    when:
+      path: input.detailed
+      operator: equals
+      value: true
+    map:
+      temperature: reading.temperature
+  - id: warning
+    function: warn
+    when:
+      - path: reading.temperature
+        operator: gte
+        value: 30
+      - path: reading.alerts
+        operator: exists
+output:
+  temperature: reading.temperature
+  details: details
+`;
+
+// Records each call and answers with a canned result per function
+function createRunner(results: Record<string, any>) {
+  const calls: IPipelineStepCall[] = [];
+  const runner = async (call: IPipelineStepCall) => {
+    calls.push(call);
+    return results[call.functionName];
+  };
+  return { calls, runner };
+}
+
+describe('pipeline definitions', () => {
+  it('parses YAML pipelines', () => {
+    const definition = parsePipeline(source);
+
+    expect(definition.name).toBe('report');
+    expect(definition.steps.map(step => step.id)).toEqual(['reading', 'details', 'warning']);
+  });
+
+  it('rejects steps that read a later step', () => {
+    expect(() => parsePipeline(`
+name: broken
+description: Reads ahead
+steps:
+  - id: first
+    function: weather
+    map:
+      city: second.city
+  - id: second
+    function: weather
+`)).toThrow('Step first refers to second.city, which is neither input nor an earlier step');
+  });
+
+  it('rejects duplicate step ids', () => {
+    expect(() => parsePipeline(`
+name: broken
+description: Reuses an id
+steps:
+  - id: first
+    function: weather
+  - id: first
+    function: weather
+`)).toThrow('Step id first is used more than once');
+  });
+
+  it('rejects steps that are neither a function nor a parallel group', () => {
+    expect(() => parsePipeline(`
+name: broken
+description: Empty step
+steps:
+  - id: first
+`)).toThrow(/^Invalid pipeline/);
+  });
+});
+
+describe('running pipelines', () => {
+  const definition = parsePipeline(source);
+
+  it('maps earlier results into later steps and skips steps whose conditions fail', async () => {
+    const { calls, runner } = createRunner({ weather: { temperature: 21 }, describe: 'Mild' });
+
+    const output = await runPipeline(definition, { city: 'Paris', detailed: true }, runner);
+
+    expect(calls.map(call => call.functionName)).toEqual(['weather', 'describe']);
+    expect(calls[0].parameters).toEqual({ city: 'Paris' });
+    expect(calls[1].parameters).toEqual({ temperature: 21 });
+    expect(output).toEqual({ temperature: 21, details: 'Mild' });
+  });
+
+  it('runs a step only when all of its conditions hold', async () => {
+    const hot = createRunner({ weather: { temperature: 35, alerts: ['heat'] } });
+    await runPipeline(definition, { city: 'Seville' }, hot.runner);
+    expect(hot.calls.map(call => call.functionName)).toEqual(['weather', 'warn']);
+
+    const noAlerts = createRunner({ weather: { temperature: 35 } });
+    await runPipeline(definition, { city: 'Seville' }, noAlerts.runner);
+    expect(noAlerts.calls.map(call => call.functionName)).toEqual(['weather']);
+  });
+
+  it('names the step that failed', async () => {
+    const runner = async () => {
+      throw new Error('Service unavailable');
+    };
+
+    await expect(runPipeline(definition, { city: 'Paris' }, runner)).rejects.toThrow(
+      'Pipeline report failed at step reading: Service unavailable'
+    );
+  });
+
+  it('stops pipelines nested too deeply', async () => {
+    const { runner } = createRunner({});
+    const context = { jobId: 'job-1', metadata: { pipelineDepth: 8 }, logger };
+
+    await expect(runPipeline(definition, { city: 'Paris' }, runner, context)).rejects.toThrow(
+      'Pipeline report is nested more than 8 levels deep'
+    );
+  });
+});
+
+describe('pipelines calling each other', () => {
+  const cwd = process.cwd();
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'pipelines-'));
+  let functionsManager: FunctionsManager;
+
+  const writePipeline = (name: string, calls: string) => {
+    fs.writeFileSync(path.join(directory, 'src', 'functions', 'pipeline', `${name}.yaml`), `
+name: ${name}
+description: Calls ${calls}
+steps:
+  - id: call
+    function: ${calls}
+`);
+  };
+
+  beforeAll(() => {
+    // FunctionsManager loads the functions below the working directory
+    fs.mkdirSync(path.join(directory, 'src', 'functions', 'pipeline'), { recursive: true });
+    writePipeline('first', 'second');
+    writePipeline('second', 'third');
+    writePipeline('third', 'first');
+    process.chdir(directory);
+    functionsManager = new FunctionsManager();
+  });
+
+  afterAll(async () => {
+    process.chdir(cwd);
+    await functionsManager.shutdown();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('rejects the pipeline that would close a cycle', () => {
+    // Whichever file loads last closes the cycle
+    const loaded = functionsManager.getAllFunctions().map(func => func.definition.name);
+
+    expect(loaded).toHaveLength(2);
+    expect(['first', 'second', 'third']).toEqual(expect.arrayContaining(loaded));
+  });
+});
@@ -0,0 +1,93 @@
+import { afterAll, beforeEach, describe, expect, it } from '@jest/globals';
+import { config } from '../src/config';
+import { InMemoryQuotaStore, QuotaExceededError, QuotaManager } from '../src/modules/QuotaManager';
+
+describe('quotas', () => {
+  const defaults = structuredClone(config.quotas);
+  let quotaManager: QuotaManager;
+
+  beforeEach(() => {
+    config.quotas.enabled = true;
+    config.quotas.user = { requestsPerMinute: 2, tokensPerDay: 100, concurrentJobs: 1 };
+    config.quotas.tenant = { requestsPerMinute: 3, tokensPerDay: 0, concurrentJobs: 0 };
+    quotaManager = new QuotaManager(new InMemoryQuotaStore());
+  });
+
+  afterAll(() => {
+    Object.assign(config.quotas, defaults);
+  });
+
+  it('rejects requests over the per-minute limit without counting them', async () => {
+    await quotaManager.checkRequest({ userId: 'alice' });
+    await quotaManager.checkRequest({ userId: 'alice' });
+
+    const rejected = quotaManager.checkRequest({ userId: 'alice' });
+    await expect(rejected).rejects.toThrow(QuotaExceededError);
+    await expect(rejected).rejects.toMatchObject({ scope: 'user', limit: 'requestsPerMinute', max: 2 });
+
+    expect((await quotaManager.getStatus('user', 'alice')).usage.requestsPerMinute).toBe(2);
+  });
+
+  it('counts a request in no scope when one of them is full', async () => {
+    await quotaManager.checkRequest({ userId: 'alice', tenantId: 'acme' });
+    await quotaManager.checkRequest({ userId: 'alice', tenantId: 'acme' });
+    await quotaManager.checkRequest({ userId: 'bob', tenantId: 'acme' });
+
+    await expect(quotaManager.checkRequest({ userId: 'carol', tenantId: 'acme' })).rejects.toMatchObject({
+      scope: 'tenant',
+      subjectId: 'acme',
+    });
+    expect((await quotaManager.getStatus('user', 'carol')).usage.requestsPerMinute).toBe(0);
+  });
+
+  it('rejects requests once the day\'s tokens are used up', async () => {
+    await quotaManager.recordTokens({ userId: 'alice' }, 100);
+
+    await expect(quotaManager.checkRequest({ userId: 'alice' })).rejects.toMatchObject({ limit: 'tokensPerDay' });
+  });
+
+  it('applies per-subject overrides until they are reset', async () => {
+    await quotaManager.setLimits('user', 'alice', { requestsPerMinute: 0 });
+    for (let request = 0; request < 5; request++) {
+      await quotaManager.checkRequest({ userId: 'alice' });
+    }
+
+    await quotaManager.resetLimits('user', 'alice');
+    expect((await quotaManager.getLimits('user', 'alice')).requestsPerMinute).toBe(2);
+  });
+
+  it('holds a job slot until the job releases it', async () => {
+    await quotaManager.acquireJobSlot({ userId: 'alice' }, 'job-1');
+    await expect(quotaManager.acquireJobSlot({ userId: 'alice' }, 'job-2')).rejects.toMatchObject({
+      limit: 'concurrentJobs',
+    });
+
+    await quotaManager.releaseJobSlot('job-1');
+    await quotaManager.acquireJobSlot({ userId: 'alice' }, 'job-2');
+    expect((await quotaManager.getStatus('user', 'alice')).usage.concurrentJobs).toBe(1);
+  });
+
+  it('frees the slots of jobs that are no longer active', async () => {
+    await quotaManager.acquireJobSlot({ userId: 'alice' }, 'job-1');
+
+    await quotaManager.acquireJobSlot({ userId: 'alice' }, 'job-2', async jobId => jobId !== 'job-1');
+    expect((await quotaManager.getStatus('user', 'alice')).usage.concurrentJobs).toBe(1);
+  });
+
+  it('gives back the slots already taken when another scope is full', async () => {
+    config.quotas.tenant.concurrentJobs = 1;
+    await quotaManager.acquireJobSlot({ tenantId: 'acme' }, 'job-1');
+
+    await expect(quotaManager.acquireJobSlot({ userId: 'alice', tenantId: 'acme' }, 'job-2')).rejects.toMatchObject({
+      scope: 'tenant',
+    });
+    expect((await quotaManager.getStatus('user', 'alice')).usage.concurrentJobs).toBe(0);
+  });
+
+  it('does nothing while quotas are disabled', async () => {
+    config.quotas.enabled = false;
+    for (let request = 0; request < 5; request++) {
+      await expect(quotaManager.checkRequest({ userId: 'alice' })).resolves.toBeUndefined();
+    }
+  });
+});